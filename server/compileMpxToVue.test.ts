@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { originalPositionFor } from "../src/parser/mpxTemplateParser/sourceMap";
+import { compileMpxToVue } from "./compileMpxToVue";
+
+const source = `<template>
+  <view>{{msg}}</view>
+  <wxs module="m">module.exports = { a: 1 }</wxs>
+</template>
+<script lang="ts">
+import { createComponent } from "@mpxjs/core"
+const count: number = 1
+createComponent({
+  data: { msg: "hi" }
+})
+</script>
+<script setup lang="ts">
+const local: number = 2
+</script>`;
+
+// 生成代码中包含 text 的行号（从 1 开始）
+function findLine(code: string, text: string): number {
+    return code.split("\n").findIndex((line) => line.includes(text)) + 1;
+}
+
+describe("compileMpxToVue", () => {
+    describe("script", () => {
+        it("<script setup> 与 <script> 使用相同的 lang，并合并 .mpx 文件中的 <script setup>", () => {
+            const { code, errors } = compileMpxToVue(source, { filename: "a.mpx" });
+            expect(errors).toEqual([]);
+            expect(code).toContain(`<script lang="ts">\nimport { defineComponent } from "vue";`);
+            expect(code).toMatch(/<script setup lang="ts">\nconst m = [\s\S]*\nconst local: number = 2\n<\/script>/);
+        });
+
+        it("script 按 Babel 生成的 Source Map 逐个映射回 .mpx 文件", () => {
+            const { code, map } = compileMpxToVue(source, { filename: "a.mpx" });
+            expect(originalPositionFor(map, findLine(code, "const count"), 0)).toEqual({ source: "a.mpx", line: 7, column: 0 });
+            expect(originalPositionFor(map, findLine(code, 'msg: "hi"'), 6)).toEqual({ source: "a.mpx", line: 9, column: 10 });
+            expect(originalPositionFor(map, findLine(code, "const local"), 0)).toEqual({ source: "a.mpx", line: 13, column: 0 });
+        });
+
+        it("<script setup> 的 lang 与 <script> 不一致时报告错误", () => {
+            const { code, errors } = compileMpxToVue(source.replace(`<script setup lang="ts">`, "<script setup>"), { filename: "a.mpx", locale: "en" });
+            expect(errors.map((error) => error.code)).toEqual(["script-lang-mismatch"]);
+            expect(code).toContain(`<script setup lang="ts">`);
+        });
+    });
+
+    it("组装模板、脚本和样式，样式中的 rpx 转换为 vw", () => {
+        const { code, errors, warnings } = compileMpxToVue(
+            `<template>\n  <view class="a">{{msg}}</view>\n</template>\n<script>\ncreateComponent({ data: { msg: "hi" } })\n</script>\n<style lang="less" scoped>\n.a { width: 75rpx; }\n</style>`,
+            { filename: "a.mpx" }
+        );
+        expect(errors).toEqual([]);
+        expect(warnings).toEqual([]);
+        expect(code).toContain(`<template>\n<div class="a">\n  {{msg}}\n</div>\n</template>\n\n<script>\nimport { defineComponent } from "vue";\nexport default defineComponent({`);
+        expect(code).toContain(`<style lang="less" scoped>\n.a { width: 10vw; }\n</style>`);
+    });
+
+    it("模板中的诊断信息映射回 .mpx 文件", () => {
+        const { errors } = compileMpxToVue(`<template>\n  <view>\n    <text>a</view>\n</template>`, { filename: "a.mpx" });
+        expect(errors).toMatchObject([{ code: "unclosed-element", line: 3, column: 5 }]);
+    });
+
+    it("按目标平台选用带 mode 属性的块，没有匹配时使用不带 mode 的块", () => {
+        const file = `<template><view>default</view></template>
+<template mode="web"><view>web</view></template>
+<script>createComponent({ data: { a: 1 } })</script>
+<script mode="ali">createComponent({ data: { a: 2 } })</script>
+<style>.a{}</style>
+<style mode="ali">.b{}</style>`;
+        const web = compileMpxToVue(file, { filename: "a.mpx" });
+        expect(web.errors).toEqual([]);
+        expect(web.code).toContain("<div>\n  web\n</div>");
+        expect(web.code).toContain("a: 1");
+        expect(web.code).not.toContain(".b{}");
+
+        const ali = compileMpxToVue(file, { filename: "a.mpx", mode: "ali" });
+        expect(ali.code).toContain("<div>\n  default\n</div>");
+        expect(ali.code).toContain("a: 2");
+        expect(ali.code).toContain(".b{}");
+    });
+
+    describe("usingComponents", () => {
+        const file = `<template>
+  <view><my-card title="{{t}}"/><unknown-comp/></view>
+</template>
+<script>
+createComponent({ data: { t: 1 } })
+</script>
+<script type="application/json">
+{ "usingComponents": { "my-card": "../card/index.mpx", "my-list": "/components/list" } }
+</script>`;
+
+        it("注册为组件并导入对应的 .vue 文件，模板中使用组件名", () => {
+            const { code } = compileMpxToVue(file, { filename: "a.mpx" });
+            expect(code).toContain(`  <MyCard :title="t">\n  </MyCard>`);
+            expect(code).toContain(`import MyCard from "../card/index.vue";\nimport MyList from "/components/list.vue";`);
+            expect(code).toMatch(/components: \{\n\s+MyCard,\n\s+MyList\n\s+\}/);
+        });
+
+        it("报告未注册的标签和未使用的组件", () => {
+            const { warnings } = compileMpxToVue(file, { filename: "a.mpx" });
+            expect(warnings.map((warning) => [warning.code, warning.line])).toEqual([
+                ["unknown-component", 2],
+                ["unused-component", 8],
+            ]);
+        });
+    });
+});
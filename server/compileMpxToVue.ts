@@ -0,0 +1,337 @@
+import { analyzeMpxBindings } from "../src/parser/mpxBindingAnalyzer";
+import { MpxSFCBlock, parseMpxFile, selectMpxBlocks } from "../src/parser/mpxFileParser";
+import { MpxJsonParseResult, parseMpxJsonBlock } from "../src/parser/mpxJsonParser";
+import { MpxStyleOptions, parseMpxStyle } from "../src/parser/mpxStyleParser";
+import { VueTemplateComponent, convertMpxToVueWithSourceMap, convertTemplateDefinition, getComponentName } from "../src/parser/mpxTemplateParser/convertToVue";
+import { createDiagnostic, getLineColumn, relocateDiagnostic } from "../src/parser/mpxTemplateParser/diagnostics";
+import { MappingProfile, MappingProfileName, TagRule } from "../src/parser/mpxTemplateParser/mappingProfiles";
+import { MpxTemplateParser } from "../src/parser/mpxTemplateParser/mpxTemplateParser";
+import { CodeWithSourceMap, SourceMapWriter } from "../src/parser/mpxTemplateParser/sourceMap";
+import { TemplateDefinition, TemplateFileLoader, resolveTemplateImports } from "../src/parser/mpxTemplateParser/templateResolver";
+import { Diagnostic, DiagnosticLocale } from "../src/parser/mpxTemplateParser/types";
+import { WxsModule, generateWxsScript } from "../src/parser/mpxTemplateParser/wxs";
+import { transformMpxScript } from "./mpxScriptParser";
+
+// .mpx 文件编译选项
+export interface MpxCompileOptions {
+    filename?: string; // .mpx 文件路径，默认 "index.mpx"，写入 Source Map，也用于解析模板引用的相对路径
+    locale?: DiagnosticLocale;
+    profile?: MappingProfileName | MappingProfile; // 模板的标签/属性映射配置
+    tagRules?: Record<string, TagRule>;
+    mode?: string; // 条件编译的目标平台，默认 web
+    style?: Pick<MpxStyleOptions, "unit" | "designWidth" | "viewportWidth" | "pageSelector">;
+    loadFile?: TemplateFileLoader; // 读取 <import> / <include> 引用的模板文件，未提供时不展开模板引用
+}
+
+// .mpx 文件编译结果
+export interface MpxCompileResult extends CodeWithSourceMap {
+    errors: Diagnostic[];
+    warnings: Diagnostic[];
+}
+
+// 不需要放到 <config> 块中的配置字段：组件注册已转换到 script 中
+const consumedConfigFields = ["component", "usingComponents"];
+
+// usingComponents 转换后的组件注册信息
+interface ComponentRegistry {
+    names: Record<string, string>; // 标签名 => 组件名
+    imports: Record<string, string>; // 组件名 => 导入路径
+}
+
+// .mpx 文件编译器
+class MpxCompiler {
+    private source: string = "";
+    private options: MpxCompileOptions = {};
+    private errors: Diagnostic[] = [];
+    private warnings: Diagnostic[] = [];
+
+    compile(source: string, options: MpxCompileOptions): MpxCompileResult {
+        const filename = options.filename || "index.mpx";
+        this.source = source;
+        this.options = options;
+        this.errors = [];
+        this.warnings = [];
+
+        const parsed = parseMpxFile(source, { locale: options.locale });
+        this.collect(parsed);
+        // 按目标平台选用带 mode 属性的块
+        const descriptor = selectMpxBlocks(parsed.descriptor, options.mode || "web");
+        // 模板与脚本的数据绑定检查，只产生警告
+        this.warnings.push(...analyzeMpxBindings(descriptor, { locale: options.locale }).warnings);
+
+        const writer = new SourceMapWriter({ source: filename, sourceContent: source, file: filename.replace(/\.mpx$/, "") + ".vue" });
+        const json = this.compileJson(descriptor.json);
+        const config = json?.config || {};
+        const registry = getComponentRegistry(config.usingComponents || {});
+        const wxsModules: WxsModule[] = [];
+        const usedComponents = new Set<string>();
+        let templateComponents: VueTemplateComponent[] = [];
+
+        if (descriptor.template) {
+            const template = this.compileTemplate(descriptor.template, filename, registry.names);
+            wxsModules.push(...template.wxsModules);
+            templateComponents = template.components;
+            [template.usedComponents, ...templateComponents.map((component) => component.components)].flat().forEach((tag) => usedComponents.add(tag));
+
+            writer.write("<template>\n");
+            writer.writeWithSourceMap(template.code, template.map);
+            writer.write("\n</template>\n");
+        }
+        this.checkUnusedComponents(Object.keys(registry.names), usedComponents, json);
+
+        const lang = this.getScriptLang(descriptor.script, descriptor.scriptSetup);
+        this.writeScript(writer, descriptor.script, registry.imports, lang, filename);
+        this.writeSetupScript(writer, descriptor.scriptSetup, generateSetupScript(wxsModules, templateComponents), lang);
+
+        for (const style of descriptor.styles) {
+            this.writeStyle(writer, style);
+        }
+
+        const rest = Object.fromEntries(Object.entries(config).filter(([key]) => !consumedConfigFields.includes(key)));
+        if (Object.keys(rest).length > 0) {
+            writer.write(`\n<config lang="json">\n${JSON.stringify(rest, null, 4)}\n</config>\n`);
+        }
+
+        return {
+            code: writer.getCode().replace(/^\n/, ""),
+            map: writer.toSourceMap(),
+            errors: this.errors,
+            warnings: this.warnings,
+        };
+    }
+
+    // 转换模板，展开模板引用，诊断信息换算到 .mpx 文件中的位置
+    private compileTemplate(
+        block: MpxSFCBlock,
+        filename: string,
+        registered: Record<string, string>
+    ): CodeWithSourceMap & { wxsModules: WxsModule[]; usedComponents: string[]; components: VueTemplateComponent[] } {
+        const { locale, profile, tagRules, mode, loadFile } = this.options;
+        const offset = block.loc.start;
+        const parsed = new MpxTemplateParser(block.content, { locale }).parse();
+        this.collect(parsed, offset);
+
+        let ast = parsed.ast;
+        let templates: Record<string, TemplateDefinition> = {};
+        if (loadFile) {
+            const resolved = resolveTemplateImports(ast, { loadFile, filename, template: block.content, locale });
+            this.collect(resolved, offset);
+            ast = resolved.ast;
+            templates = resolved.templates;
+        }
+
+        const result = convertMpxToVueWithSourceMap(ast, {
+            template: block.content,
+            locale,
+            profile,
+            tagRules,
+            mode,
+            components: registered,
+            source: filename,
+            sourceContent: this.source,
+            offset: { line: block.loc.line, column: block.loc.column },
+        });
+        this.collect(result, offset);
+
+        // 其他文件中定义的模板，诊断位置不在当前文件中，只报告入口文件中的
+        const components = Object.values(templates).map((definition) => {
+            const component = convertTemplateDefinition(definition, { locale, profile, tagRules, mode, components: registered });
+            if (definition.filename === filename) {
+                this.collect(component, offset);
+            }
+            return component;
+        });
+
+        return { code: result.code, map: result.map, wxsModules: result.wxsModules, usedComponents: result.components, components };
+    }
+
+    // 解析 json 块，诊断信息已由解析器换算到 .mpx 文件中的位置
+    private compileJson(block: MpxSFCBlock | null): MpxJsonParseResult | null {
+        if (!block) {
+            return null;
+        }
+        const result = parseMpxJsonBlock(block, this.source, this.options.locale);
+        this.collect(result);
+        return result;
+    }
+
+    // 注册后没有在模板（包括 <template name> 定义）中使用的组件，警告报告在 usingComponents 中对应的配置项上
+    private checkUnusedComponents(tags: string[], used: Set<string>, json: MpxJsonParseResult | null): void {
+        for (const tag of tags) {
+            if (used.has(tag) || !json) {
+                continue;
+            }
+            const range = json.locations[`usingComponents.${tag}`] || json.locations.usingComponents || { start: 0, end: 0 };
+            this.warnings.push(createDiagnostic(this.source, "unused-component", "warning", range, { args: { tag }, locale: this.options.locale }));
+        }
+    }
+
+    // <script> 和 <script setup> 必须使用相同的语言，不一致时以 <script> 为准
+    private getScriptLang(script: MpxSFCBlock | null, scriptSetup: MpxSFCBlock | null): string | undefined {
+        if (script && scriptSetup && (script.lang || "js") !== (scriptSetup.lang || "js")) {
+            const range = { start: scriptSetup.blockLoc.start, end: scriptSetup.loc.start };
+            this.errors.push(
+                createDiagnostic(this.source, "script-lang-mismatch", "error", range, {
+                    args: { lang: script.lang || "js", setupLang: scriptSetup.lang || "js" },
+                    locale: this.options.locale,
+                })
+            );
+        }
+        return script ? script.lang : scriptSetup?.lang;
+    }
+
+    // 转换 script 块，按 Babel 生成的 Source Map 映射回 .mpx 文件
+    private writeScript(writer: SourceMapWriter, script: MpxSFCBlock | null, components: Record<string, string>, lang: string | undefined, filename: string): void {
+        if (!script && Object.keys(components).length === 0) {
+            return;
+        }
+        // 没有 script 块时生成空组件，用于注册 usingComponents 中的组件
+        const content = script ? script.content : 'import { createComponent } from "@mpxjs/core"\ncreateComponent({})';
+        const offset = script ? { line: script.loc.line, column: script.loc.column } : undefined;
+        const result = transformMpxScript(content, { components, source: filename, offset, locale: this.options.locale });
+        if (script) {
+            this.collect(result, script.loc.start);
+        }
+
+        writer.write(`\n<script${lang ? ` lang="${lang}"` : ""}>\n`);
+        if (!script) {
+            writer.write(result.code);
+        } else if (result.map) {
+            writer.writeWithSourceMap(result.code, result.map);
+        } else {
+            // 解析失败时原样输出
+            this.writeVerbatim(writer, script);
+        }
+        writer.write("\n</script>\n");
+    }
+
+    // 输出 <script setup>：先输出生成的 WXS 模块和模板组件，再原样输出 .mpx 文件中的 <script setup> 内容
+    private writeSetupScript(writer: SourceMapWriter, scriptSetup: MpxSFCBlock | null, generated: string, lang: string | undefined): void {
+        const content = scriptSetup ? scriptSetup.content.trim() : "";
+        if (!generated && !content) {
+            return;
+        }
+        writer.write(`\n<script setup${lang ? ` lang="${lang}"` : ""}>\n`);
+        if (generated) {
+            writer.write(`${generated}\n`);
+        }
+        if (scriptSetup && content) {
+            this.writeVerbatim(writer, scriptSetup);
+            writer.write("\n");
+        }
+        writer.write("</script>\n");
+    }
+
+    // 原样输出块内容（去掉首尾空白），逐行映射回 .mpx 文件
+    private writeVerbatim(writer: SourceMapWriter, block: MpxSFCBlock): void {
+        const content = block.content.trim();
+        const { line, column } = getLineColumn(this.source, block.loc.start + block.content.indexOf(content));
+        writer.write(content, { line, column }, true);
+    }
+
+    // 转换样式，行数不变时逐行映射回原文
+    private writeStyle(writer: SourceMapWriter, block: MpxSFCBlock): void {
+        const result = parseMpxStyle(block.content, {
+            lang: block.lang,
+            target: "web",
+            source: this.source,
+            offset: block.loc.start,
+            locale: this.options.locale,
+            ...this.options.style,
+        });
+        this.collect(result);
+
+        const attrs = (block.lang ? ` lang="${block.lang}"` : "") + (block.scoped ? " scoped" : "");
+        const verbatim = result.code.split("\n").length === block.content.split("\n").length;
+        writer.write(`\n<style${attrs}>`);
+        writer.write(result.code, { line: block.loc.line, column: block.loc.column }, verbatim);
+        writer.write("</style>\n");
+    }
+
+    // 收集诊断信息，offset 为块内容在 .mpx 文件中的偏移量
+    private collect(result: { errors: Diagnostic[]; warnings: Diagnostic[] }, offset?: number): void {
+        const relocate = (diagnostic: Diagnostic) => (offset === undefined ? diagnostic : relocateDiagnostic(diagnostic, this.source, offset));
+        this.errors.push(...result.errors.map(relocate));
+        this.warnings.push(...result.warnings.map(relocate));
+    }
+}
+
+/**
+ * 根据 usingComponents 生成组件名和导入路径
+ * - 组件名为标签名的 PascalCase 形式，重名时添加数字后缀
+ * - .mpx 文件改为同名的 .vue 文件，没有扩展名时补全 .vue
+ * @param usingComponents - 标签名 => 组件路径
+ * @returns 标签名到组件名、组件名到导入路径的映射
+ */
+function getComponentRegistry(usingComponents: Record<string, string>): ComponentRegistry {
+    const registry: ComponentRegistry = { names: {}, imports: {} };
+    for (const [tag, path] of Object.entries(usingComponents)) {
+        const base = getComponentName(tag);
+        let name = base;
+        for (let index = 2; name in registry.imports; index++) {
+            name = `${base}${index}`;
+        }
+        const basename = path.split("/").pop() || "";
+        registry.names[tag] = name;
+        registry.imports[name] = /\.mpx$/.test(path) ? path.replace(/\.mpx$/, ".vue") : /\.\w+$/.test(basename) ? path : `${path}.vue`;
+    }
+    return registry;
+}
+
+/**
+ * 生成 <script setup> 代码：WXS 模块和 <template name> 转换成的组件
+ * 模板组件使用 template 选项，需要使用包含运行时编译器的 Vue 构建版本
+ * @param modules - 入口模板中的 WXS 模块
+ * @param components - 模板组件
+ * @returns script 代码，没有内容时返回空字符串
+ */
+function generateSetupScript(modules: WxsModule[], components: VueTemplateComponent[]): string {
+    // 模板组件所在文件中的 WXS 模块也需要声明，同名模块只声明一次
+    const declared = [...modules];
+    for (const component of components) {
+        for (const module of component.wxsModules) {
+            if (!declared.some((item) => item.name === module.name)) {
+                declared.push(module);
+            }
+        }
+    }
+
+    const lines: string[] = [];
+    if (components.length > 0) {
+        lines.push('import { defineComponent as defineTemplateComponent } from "vue";');
+    }
+    const wxs = generateWxsScript(declared);
+    if (wxs) {
+        lines.push(wxs);
+    }
+
+    for (const component of components) {
+        const names = component.wxsModules.map((module) => module.name);
+        const options = [
+            `    props: ${JSON.stringify(component.props)},`,
+            names.length > 0 ? `    setup: () => ({ ${names.join(", ")} }),` : "",
+            `    template: ${JSON.stringify(component.code)},`,
+        ].filter(Boolean);
+        lines.push(`const ${getComponentName(component.name)} = defineTemplateComponent({\n${options.join("\n")}\n});`);
+    }
+
+    return lines.join("\n");
+}
+
+/**
+ * 将 .mpx 文件编译为 Vue 单文件组件
+ * - template：转换为 Vue 模板，可选展开 <import> / <include>
+ * - script：createComponent / createPage 转换为 defineComponent，usingComponents 转换为组件导入和注册
+ * - 模板中自定义组件的标签转换为注册的组件名，检查未注册和未使用的组件
+ * - 检查模板中未声明的数据、事件处理函数，以及未使用的数据和方法
+ * - <wxs> 和 <template name>：生成 <script setup>，与 .mpx 文件中的 <script setup> 合并，语言与 <script> 一致
+ * - style：rpx 等转换后保留 lang 和 scoped
+ * - json：其余页面配置放到 <config> 自定义块中
+ * @param source - .mpx 文件内容
+ * @param options - 编译选项
+ * @returns .vue 文件内容、指向 .mpx 文件的 Source Map 和所有块的诊断信息
+ */
+export function compileMpxToVue(source: string, options: MpxCompileOptions = {}): MpxCompileResult {
+    const compiler = new MpxCompiler();
+    return compiler.compile(source, options);
+}
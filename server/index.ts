@@ -1,15 +1,25 @@
 import express from "express";
 const app = express();
 const port = 3000;
-import { parseMpxScript } from "./mpxScriptParser";
+import { transformMpxScript } from "./mpxScriptParser";
+import { compileMpxToVue } from "./compileMpxToVue";
 // 处理 Babel 转换请求
 app.use("/babel/script", express.json(), (req, res) => {
     const { code } = req.body;
     if (!code) {
         return res.status(400).json({ error: "No code provided" });
     }
-    const transformedCode = parseMpxScript(code);
-    res.json({ code: transformedCode });
+    const { code: transformedCode, errors, warnings } = transformMpxScript(code);
+    res.json({ code: transformedCode, errors, warnings });
+});
+
+// 处理 .mpx 文件编译请求
+app.use("/compile", express.json(), (req, res) => {
+    const { code, filename, locale, mode } = req.body;
+    if (!code) {
+        return res.status(400).json({ error: "No code provided" });
+    }
+    res.json(compileMpxToVue(code, { filename, locale, mode }));
 });
 
 // 启动服务器
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { compileMpxToVue } from "./compileMpxToVue";
+import { transformMpxScript } from "./mpxScriptParser";
+
+// 去掉空白，便于比较生成代码
+function compact(code: string): string {
+    return code.replace(/\s+/g, "");
+}
+
+describe("transformMpxScript", () => {
+    it("createComponent 转换为 defineComponent，data 转换为函数", () => {
+        const { code, errors } = transformMpxScript(`import { createComponent } from "@mpxjs/core"\ncreateComponent({ data: { a: 1 } })`);
+        expect(errors).toEqual([]);
+        expect(code).toContain(`import { defineComponent } from "vue";`);
+        expect(compact(code)).toContain("exportdefaultdefineComponent({data(){return{a:1};}");
+    });
+
+    it("单个字段的 observers 转换为 watch，** 转换为 deep 监听", () => {
+        const { code } = transformMpxScript(`createComponent({
+  observers: {
+    a(v) {},
+    "b.**": function (b) {},
+    "list[0]": "onFirst",
+    "**": function () {}
+  }
+})`);
+        const output = compact(code);
+        expect(output).toContain(`"a":function(v){}`);
+        expect(output).toContain(`"b":{handler:function(b){},deep:true}`);
+        expect(output).toContain(`"list.0":"onFirst"`);
+        expect(output).toContain(`"$data":{handler:function(){},deep:true}`);
+    });
+
+    it("多个字段的 observers 在 created 中通过 $watch 监听", () => {
+        const { code } = transformMpxScript(`createComponent({
+  observers: { "a, b.c": function (a, c) {} }
+})`);
+        expect(compact(code)).toContain("this.$watch(()=>[this.a,this.b.c],values=>function(a,c){}.apply(this,values));");
+    });
+
+    it("pageLifetimes 的 show / hide 转换为 activated / deactivated，resize 报告后忽略", () => {
+        const content = `createComponent({
+  pageLifetimes: {
+    show() { this.visible = true },
+    hide() { this.visible = false },
+    resize(size) {}
+  }
+})`;
+        const { code, warnings } = transformMpxScript(content, { locale: "en" });
+        const output = compact(code);
+        expect(output).toContain("activated(){this.visible=true;}");
+        expect(output).toContain("deactivated(){this.visible=false;}");
+        expect(output).not.toContain("resize");
+        expect(warnings).toMatchObject([{ code: "unsupported-lifetime", severity: "warning", line: 5, column: 5 }]);
+    });
+
+    it("this.properties 与 this.data 一样转换为实例属性访问", () => {
+        const { code } = transformMpxScript(`createComponent({
+  methods: {
+    log() { console.log(this.properties.title, this.properties, this.data) }
+  }
+})`);
+        expect(compact(code)).toContain("console.log(this.title,this.$props,this.$data)");
+    });
+
+    it("onLoad 使用页面参数时报告警告", () => {
+        const { code, warnings } = transformMpxScript(`createPage({\n  onLoad(query) { this.id = query.id }\n})`);
+        expect(compact(code)).toContain("created(query){this.id=query.id;}");
+        expect(warnings).toMatchObject([{ code: "page-query-unavailable", line: 2, column: 10 }]);
+        expect(transformMpxScript(`createPage({ onLoad() {} })`).warnings).toEqual([]);
+    });
+
+    it("脚本语法错误时原样输出并返回诊断信息", () => {
+        const content = "createComponent({ a: })";
+        const { code, map, errors } = transformMpxScript(content, { locale: "en" });
+        expect(code).toBe(content);
+        expect(map).toBeNull();
+        expect(errors).toMatchObject([{ code: "invalid-script", severity: "error", start: 21, line: 1, column: 22 }]);
+    });
+
+    it("编译 .mpx 文件时脚本语法错误映射回 .mpx 文件", () => {
+        const { errors } = compileMpxToVue("<template><view /></template>\n<script>\ncreateComponent({ a: })\n</script>", { filename: "a.mpx" });
+        expect(errors).toMatchObject([{ code: "invalid-script", line: 3, column: 22 }]);
+    });
+});
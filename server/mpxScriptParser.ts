@@ -1,37 +1,594 @@
 import { parse } from "@babel/parser";
-import traverseDefault from "@babel/traverse";
-import generateDefault from "@babel/generator";
+import traverseModule from "@babel/traverse";
+import generateModule from "@babel/generator";
 import * as t from "@babel/types";
 import type { NodePath } from "@babel/traverse";
+import { createDiagnostic } from "../src/parser/mpxTemplateParser/diagnostics";
+import { SourceMapV3 } from "../src/parser/mpxTemplateParser/sourceMap";
+import { Diagnostic, DiagnosticCode, DiagnosticLocale } from "../src/parser/mpxTemplateParser/types";
 
-// @ts-ignore
-const traverse = traverseDefault.default || traverseDefault;
-// @ts-ignore
-const generate = generateDefault.default || generateDefault;
+// CommonJS 包在 Node 的 ESM 中导入时，默认导出位于 default 上
+const traverse = interopDefault(traverseModule);
+const generate = interopDefault(generateModule);
 
-export function parseMpxScript(scriptContent: string): string {
+// 需要转换为 defineComponent 的 Mpx 构造函数
+const CONSTRUCTORS = ["createComponent", "createPage"];
+
+// 可以直接从 vue 导入的组合式 API
+const VUE_APIS = [
+    "ref",
+    "reactive",
+    "computed",
+    "watch",
+    "watchEffect",
+    "toRef",
+    "toRefs",
+    "unref",
+    "isRef",
+    "shallowRef",
+    "shallowReactive",
+    "readonly",
+    "nextTick",
+    "onMounted",
+    "onUnmounted",
+    "onBeforeMount",
+    "onBeforeUnmount",
+    "onUpdated",
+    "onActivated",
+    "onDeactivated",
+];
+
+// 小程序生命周期到 Vue 生命周期的映射
+const LIFECYCLE_MAPPING: Record<string, string> = {
+    created: "created",
+    attached: "beforeMount",
+    ready: "mounted",
+    detached: "unmounted",
+    onLoad: "created",
+    onReady: "mounted",
+    onShow: "activated",
+    onHide: "deactivated",
+    onUnload: "unmounted",
+};
+
+// pageLifetimes 中的生命周期对应页面的 onShow / onHide，resize 在 Web 上没有对应实现
+const PAGE_LIFETIMES_MAPPING: Record<string, string> = {
+    show: "onShow",
+    hide: "onHide",
+};
+
+// this.data / this.properties 单独使用时对应的 Vue 实例属性
+const DATA_ACCESSORS: Record<string, string> = {
+    data: "$data",
+    properties: "$props",
+};
+
+// 报告转换中的警告，位置取 AST 节点在 script 内容中的范围
+type ReportWarning = (code: DiagnosticCode, node: t.Node, args: Record<string, string>) => void;
+
+// 脚本转换选项
+export interface MpxScriptOptions {
+    components?: Record<string, string>; // 需要注册的组件：组件名 => 导入路径，来自 usingComponents
+    source?: string; // 源文件名，提供时生成 Source Map
+    offset?: { line: number; column: number }; // script 内容第一个字符在源文件中的位置（行列从 1 开始）
+    locale?: DiagnosticLocale;
+}
+
+// 脚本转换结果
+export interface MpxScriptResult {
+    code: string;
+    map: SourceMapV3 | null; // 没有提供 source 或解析失败时为 null
+    errors: Diagnostic[]; // 位置相对于 script 内容
+    warnings: Diagnostic[]; // 位置相对于 script 内容
+}
+
+/**
+ * 将 Mpx 的 script 转换为 Vue 组件脚本
+ * createComponent({...}) / createPage({...}) => export default defineComponent({...})
+ * @param scriptContent - script 块内容
+ * @param options - 转换选项
+ * @returns 转换后的代码，解析失败时原样返回
+ */
+export function parseMpxScript(scriptContent: string, options: MpxScriptOptions = {}): string {
+    return transformMpxScript(scriptContent, options).code;
+}
+
+/**
+ * 转换 script 并生成指向源文件的 Source Map
+ * @param scriptContent - script 块内容
+ * @param options - 转换选项，offset 用于把位置换算到 .mpx 文件
+ * @returns 转换后的代码和 Source Map，解析失败时原样返回代码并报告错误
+ */
+export function transformMpxScript(scriptContent: string, options: MpxScriptOptions = {}): MpxScriptResult {
+    const offset = options.offset || { line: 1, column: 1 };
+    const warnings: Diagnostic[] = [];
+    const warn: ReportWarning = (code, node, args) => {
+        const range = { start: node.start ?? 0, end: node.end ?? 0 };
+        warnings.push(createDiagnostic(scriptContent, code, "warning", range, { args, locale: options.locale }));
+    };
     try {
-        // 解析 JavaScript 代码为 AST
+        // 解析 JavaScript 代码为 AST，节点位置直接使用源文件中的行列
         const ast = parse(scriptContent, {
             sourceType: "module",
             plugins: ["typescript", "jsx"],
+            startLine: offset.line,
+            startColumn: offset.column - 1,
         });
+        let converted = false;
+
         // 遍历 AST 提取组件配置和导入语句
         traverse(ast, {
             CallExpression(path: NodePath<t.CallExpression>) {
-                // createComponent({}) => export default createComponent({})
-                // createPage({}) => export default createPage({})
-                if (t.isIdentifier(path.node.callee) && path.node.callee.name === "createComponent") {
-                    if (path.node.arguments.length > 0 && t.isObjectExpression(path.node.arguments[0])) {
-                    }
-                } else if (t.isIdentifier(path.node.callee) && path.node.callee.name === "createPage") {
-                    if (path.node.arguments.length > 0 && t.isObjectExpression(path.node.arguments[0])) {
+                const callee = path.node.callee;
+                if (transformTriggerEvent(path)) {
+                    return;
+                }
+                if (!t.isIdentifier(callee) || !CONSTRUCTORS.includes(callee.name)) {
+                    return;
+                }
+                const definition = path.node.arguments[0];
+                if (t.isObjectExpression(definition)) {
+                    transformOptions(definition, warn);
+                    if (options.components) {
+                        addComponents(definition, options.components);
                     }
                 }
+
+                // createComponent({}) => export default defineComponent({})
+                // createPage({}) => export default defineComponent({})
+                path.node.callee = t.identifier("defineComponent");
+                const statement = path.parentPath;
+                if (statement.isExpressionStatement() && statement.parentPath.isProgram()) {
+                    statement.replaceWith(t.exportDefaultDeclaration(path.node));
+                }
+                converted = true;
+            },
+            MemberExpression(path: NodePath<t.MemberExpression>) {
+                // this.data.a => this.a，单独的 this.data => this.$data，this.properties 同理对应 this.$props
+                const accessor = getDataAccessor(path.node);
+                if (!accessor) {
+                    return;
+                }
+                const parent = path.parentPath;
+                if (parent.isMemberExpression() && parent.node.object === path.node) {
+                    parent.node.object = path.node.object;
+                } else if (!(parent.isCallExpression() && parent.node.callee === path.node)) {
+                    path.node.property = t.identifier(accessor);
+                }
+            },
+            ExpressionStatement(path: NodePath<t.ExpressionStatement>) {
+                const replacement = transformSetData(path);
+                if (replacement) {
+                    path.replaceWithMultiple(replacement);
+                }
             },
         });
+
+        if (converted) {
+            rewriteImports(ast.program);
+            if (options.components) {
+                addComponentImports(ast.program, options.components);
+            }
+        }
+
+        const result = generate(ast, { retainLines: false, sourceMaps: !!options.source, sourceFileName: options.source }, scriptContent);
+        return { code: result.code, map: options.source ? (result.map as SourceMapV3) : null, errors: [], warnings };
     } catch (error) {
-        console.error("Error parsing script:", error);
-        return scriptContent;
+        // Babel 的语法错误带有出错位置 loc
+        const loc = error instanceof SyntaxError ? (error as SyntaxError & { loc?: { index: number } }).loc : undefined;
+        const start = loc ? loc.index : 0;
+        const message = (error instanceof Error ? error.message : String(error)).replace(/\s*\(\d+:\d+\)$/, "");
+        const diagnostic = createDiagnostic(scriptContent, "invalid-script", "error", { start, end: start }, { args: { error: message }, locale: options.locale });
+        return { code: scriptContent, map: null, errors: [diagnostic], warnings: [] };
+    }
+}
+
+// 取 CommonJS 包的默认导出
+function interopDefault<T>(module: T): T {
+    return (module as T & { default?: T }).default || module;
+}
+
+// 转换组件选项对象
+function transformOptions(options: t.ObjectExpression, warn: ReportWarning): void {
+    const properties: t.ObjectExpression["properties"] = [];
+    const watchers: t.ObjectProperty[] = [];
+    const hooks: Record<string, Array<t.ObjectMethod | t.ObjectProperty>> = {};
+    const addHook = (hook: string, source: t.ObjectMethod | t.ObjectProperty) => {
+        if (!hooks[hook]) {
+            hooks[hook] = [];
+            // 占位，保持生命周期在选项中的原有顺序
+            properties.push(t.objectProperty(t.identifier(hook), t.nullLiteral()));
+        }
+        hooks[hook].push(source);
+    };
+
+    // lifetimes / pageLifetimes 中的生命周期与顶层的生命周期同等处理
+    const flattened: t.ObjectExpression["properties"] = [];
+    for (const property of options.properties) {
+        const key = getKeyName(property);
+        if (key === "lifetimes" && t.isObjectProperty(property) && t.isObjectExpression(property.value)) {
+            flattened.push(...property.value.properties);
+        } else if (key === "pageLifetimes" && t.isObjectProperty(property) && t.isObjectExpression(property.value)) {
+            flattened.push(...transformPageLifetimes(property.value, warn));
+        } else {
+            flattened.push(property);
+        }
+    }
+
+    for (const property of flattened) {
+        const key = getKeyName(property);
+        if (key === "properties" && t.isObjectProperty(property) && t.isObjectExpression(property.value)) {
+            properties.push(t.objectProperty(t.identifier("props"), transformProperties(property.value, watchers)));
+        } else if (key === "data" && t.isObjectProperty(property) && t.isObjectExpression(property.value)) {
+            // data: {...} => data() { return {...}; }
+            properties.push(t.objectMethod("method", t.identifier("data"), [], t.blockStatement([t.returnStatement(property.value)])));
+        } else if (key === "observers" && t.isObjectProperty(property) && t.isObjectExpression(property.value)) {
+            // 多个字段的 observer 在 created 中通过 $watch 监听
+            const created = transformObservers(property.value, watchers);
+            if (created) {
+                addHook("created", created);
+            }
+        } else if (key && key in LIFECYCLE_MAPPING && (t.isObjectMethod(property) || t.isObjectProperty(property))) {
+            if (key === "onLoad") {
+                checkPageQuery(property, warn);
+            }
+            addHook(LIFECYCLE_MAPPING[key], property);
+        } else {
+            properties.push(property);
+        }
+    }
+
+    // 用生成的生命周期替换占位
+    for (let i = 0; i < properties.length; i++) {
+        const hook = getKeyName(properties[i]);
+        if (hook && hooks[hook] && t.isObjectProperty(properties[i]) && t.isNullLiteral((properties[i] as t.ObjectProperty).value)) {
+            properties[i] = createHook(hook, hooks[hook]);
+        }
+    }
+
+    if (watchers.length > 0) {
+        const watch = properties.find((property) => getKeyName(property) === "watch");
+        if (watch && t.isObjectProperty(watch) && t.isObjectExpression(watch.value)) {
+            watch.value.properties.push(...watchers);
+        } else {
+            properties.push(t.objectProperty(t.identifier("watch"), t.objectExpression(watchers)));
+        }
+    }
+
+    options.properties = properties;
+}
+
+// pageLifetimes 中的 show / hide 改为页面的 onShow / onHide，不支持的 resize 报告后忽略
+function transformPageLifetimes(lifetimes: t.ObjectExpression, warn: ReportWarning): t.ObjectExpression["properties"] {
+    const properties: t.ObjectExpression["properties"] = [];
+    for (const property of lifetimes.properties) {
+        const key = getKeyName(property);
+        if (key === "resize") {
+            warn("unsupported-lifetime", property, { name: "pageLifetimes.resize" });
+        } else {
+            if (key && key in PAGE_LIFETIMES_MAPPING && (t.isObjectMethod(property) || t.isObjectProperty(property))) {
+                property.key = t.identifier(PAGE_LIFETIMES_MAPPING[key]);
+            }
+            properties.push(property);
+        }
+    }
+    return properties;
+}
+
+// onLoad(query) 转换为 created 后不再收到页面参数，使用了参数时报告
+function checkPageQuery(property: t.ObjectMethod | t.ObjectProperty, warn: ReportWarning): void {
+    const fn = t.isObjectMethod(property) ? property : t.isFunction(property.value) ? property.value : null;
+    const query = fn?.params[0];
+    if (query) {
+        warn("page-query-unavailable", query, { hook: "onLoad", name: t.isIdentifier(query) ? query.name : "query" });
+    }
+}
+
+// 转换 properties 为 props，observer 收集到 watch 中
+function transformProperties(definition: t.ObjectExpression, watchers: t.ObjectProperty[]): t.ObjectExpression {
+    for (const property of definition.properties) {
+        if (!t.isObjectProperty(property) || !t.isObjectExpression(property.value)) {
+            continue;
+        }
+        const prop = property.value;
+        const fields: t.ObjectExpression["properties"] = [];
+        let types: t.Expression[] = [];
+
+        for (const field of prop.properties) {
+            const name = getKeyName(field);
+            if (name === "type" && t.isObjectProperty(field)) {
+                types.unshift(field.value as t.Expression);
+            } else if (name === "optionalTypes" && t.isObjectProperty(field) && t.isArrayExpression(field.value)) {
+                // optionalTypes 合并到 type 数组中
+                types.push(...(field.value.elements.filter((element) => t.isExpression(element)) as t.Expression[]));
+            } else if (name === "value" && t.isObjectProperty(field)) {
+                // 对象和数组的默认值需要使用工厂函数
+                const value = field.value as t.Expression;
+                const defaultValue = t.isObjectExpression(value) || t.isArrayExpression(value) ? t.arrowFunctionExpression([], value) : value;
+                fields.push(t.objectProperty(t.identifier("default"), defaultValue));
+            } else if (name === "observer" && t.isObjectProperty(field)) {
+                // observer: "onChange" => watch: { prop: "onChange" }
+                watchers.push(t.objectProperty(t.cloneNode(property.key), field.value as t.Expression, property.computed));
+            } else if (name === "observer" && t.isObjectMethod(field)) {
+                watchers.push(t.objectProperty(t.cloneNode(property.key), t.functionExpression(null, field.params, field.body, field.generator, field.async), property.computed));
+            } else {
+                fields.push(field);
+            }
+        }
+
+        if (types.length > 0) {
+            fields.unshift(t.objectProperty(t.identifier("type"), types.length === 1 ? types[0] : t.arrayExpression(types)));
+        }
+        prop.properties = fields;
+    }
+
+    return definition;
+}
+
+/**
+ * 转换数据监听器 observers
+ * - 单个字段：{ "a.b": fn } => watch: { "a.b": fn }，"a.**" 转换为 deep 监听，"arr[0]" 转换为 "arr.0"
+ * - 多个字段：{ "a, b": fn } => created() { this.$watch(() => [this.a, this.b], (values) => fn.apply(this, values)) }
+ * @param observers - observers 对象
+ * @param watchers - 收集单字段监听器的 watch 选项
+ * @returns 监听多个字段的 created 生命周期，没有时返回 null
+ */
+function transformObservers(observers: t.ObjectExpression, watchers: t.ObjectProperty[]): t.ObjectMethod | null {
+    const statements: t.Statement[] = [];
+
+    for (const observer of observers.properties) {
+        const key = getKeyName(observer);
+        const handler = t.isObjectMethod(observer)
+            ? t.functionExpression(null, observer.params, observer.body, observer.generator, observer.async)
+            : t.isObjectProperty(observer) && t.isExpression(observer.value)
+              ? observer.value
+              : null;
+        if (!key || !handler) {
+            continue;
+        }
+
+        // "**" 表示监听所有子字段
+        const fields = key.split(",").map((field) => {
+            const path = field.trim().replace(/\[(\d+)\]/g, ".$1");
+            const deep = /(^|\.)\*\*$/.test(path);
+            return { path: deep ? path.replace(/\.?\*\*$/, "") || "$data" : path, deep };
+        });
+        const deep = fields.some((field) => field.deep);
+
+        if (fields.length === 1) {
+            const value = deep
+                ? t.objectExpression([t.objectProperty(t.identifier("handler"), handler), t.objectProperty(t.identifier("deep"), t.booleanLiteral(true))])
+                : handler;
+            watchers.push(t.objectProperty(t.stringLiteral(fields[0].path), value));
+            continue;
+        }
+
+        const values = t.identifier("values");
+        const source = t.arrowFunctionExpression([], t.arrayExpression(fields.map((field) => createPathTarget(t.thisExpression(), field.path))));
+        const callback = t.arrowFunctionExpression([values], t.callExpression(t.memberExpression(handler, t.identifier("apply")), [t.thisExpression(), values]));
+        const args: t.Expression[] = [source, callback];
+        if (deep) {
+            args.push(t.objectExpression([t.objectProperty(t.identifier("deep"), t.booleanLiteral(true))]));
+        }
+        statements.push(t.expressionStatement(t.callExpression(t.memberExpression(t.thisExpression(), t.identifier("$watch")), args)));
+    }
+
+    return statements.length > 0 ? t.objectMethod("method", t.identifier("created"), [], t.blockStatement(statements)) : null;
+}
+
+// 生成 Vue 生命周期，多个小程序生命周期映射到同一个 Vue 生命周期时依次调用
+function createHook(hook: string, sources: Array<t.ObjectMethod | t.ObjectProperty>): t.ObjectMethod | t.ObjectProperty {
+    if (sources.length === 1) {
+        const source = sources[0];
+        source.key = t.identifier(hook);
+        source.computed = false;
+        return source;
+    }
+
+    const args = t.identifier("args");
+    const body = sources.map((source) => {
+        const fn = t.isObjectMethod(source)
+            ? t.functionExpression(null, source.params, source.body, source.generator, source.async)
+            : (source.value as t.Expression);
+        return t.expressionStatement(
+            t.callExpression(t.memberExpression(fn, t.identifier("apply")), [t.thisExpression(), args])
+        );
+    });
+    return t.objectMethod("method", t.identifier(hook), [t.restElement(args)], t.blockStatement(body));
+}
+
+// this.setData({ a: 1, "b.c": 2 }, cb) => this.a = 1; this.b.c = 2; this.$nextTick(cb);
+function transformSetData(path: NodePath<t.ExpressionStatement>): t.Statement[] | null {
+    const call = path.node.expression;
+    if (!t.isCallExpression(call) || !t.isMemberExpression(call.callee) || call.callee.computed) {
+        return null;
+    }
+    const { object, property } = call.callee;
+    if (!t.isIdentifier(property, { name: "setData" }) || !isThisReference(path, object)) {
+        return null;
+    }
+
+    const [data, callback] = call.arguments;
+    const statements: t.Statement[] = [];
+
+    if (t.isObjectExpression(data) && data.properties.every((item) => t.isObjectProperty(item))) {
+        for (const item of data.properties as t.ObjectProperty[]) {
+            const target = createDataTarget(object, item);
+            statements.push(t.expressionStatement(t.assignmentExpression("=", target, item.value as t.Expression)));
+        }
+    } else if (data && t.isExpression(data)) {
+        statements.push(t.expressionStatement(t.callExpression(t.memberExpression(t.identifier("Object"), t.identifier("assign")), [t.cloneNode(object), data])));
+    }
+
+    if (callback && t.isExpression(callback)) {
+        statements.push(t.expressionStatement(t.callExpression(t.memberExpression(t.cloneNode(object), t.identifier("$nextTick")), [callback])));
+    }
+
+    if (statements.length > 0) {
+        t.addComments(statements[0], "leading", path.node.leadingComments || []);
+    }
+    return statements;
+}
+
+// this.triggerEvent(name, detail) => this.$emit(name, { type: name, detail })，与模板中事件对象的结构一致
+function transformTriggerEvent(path: NodePath<t.CallExpression>): boolean {
+    const callee = path.node.callee;
+    if (!t.isMemberExpression(callee) || callee.computed || !t.isIdentifier(callee.property, { name: "triggerEvent" })) {
+        return false;
+    }
+    if (!isThisReference(path, callee.object)) {
+        return false;
+    }
+
+    const [name, detail] = path.node.arguments;
+    if (!name || !t.isExpression(name)) {
+        return false;
+    }
+    const event = t.objectExpression([
+        t.objectProperty(t.identifier("type"), t.cloneNode(name)),
+        t.objectProperty(t.identifier("detail"), detail && t.isExpression(detail) ? detail : t.objectExpression([])),
+    ]);
+    path.node.callee = t.memberExpression(callee.object, t.identifier("$emit"));
+    path.node.arguments = [name, event];
+    return true;
+}
+
+// 根据 setData 的键生成赋值目标，支持 "a.b[0].c" 形式的数据路径
+function createDataTarget(object: t.Expression, item: t.ObjectProperty): t.MemberExpression {
+    if (item.computed) {
+        return t.memberExpression(t.cloneNode(object), item.key as t.Expression, true);
+    }
+
+    const key = t.isIdentifier(item.key) ? item.key.name : t.isStringLiteral(item.key) || t.isNumericLiteral(item.key) ? String(item.key.value) : null;
+    if (key === null) {
+        return t.memberExpression(t.cloneNode(object), item.key as t.Expression, true);
+    }
+    return createPathTarget(object, key);
+}
+
+// 根据 "a.b[0].c" 形式的数据路径生成属性访问
+function createPathTarget(object: t.Expression, key: string): t.MemberExpression {
+    let target: t.Expression = t.cloneNode(object);
+    const segments = key.match(/[^.[\]]+|\[\d+\]/g) || [key];
+    for (const segment of segments) {
+        if (segment.startsWith("[")) {
+            target = t.memberExpression(target, t.numericLiteral(Number(segment.slice(1, -1))), true);
+        } else if (t.isValidIdentifier(segment)) {
+            target = t.memberExpression(target, t.identifier(segment));
+        } else {
+            target = t.memberExpression(target, t.stringLiteral(segment), true);
+        }
+    }
+    return target as t.MemberExpression;
+}
+
+// 判断是否为 this 或 const that = this 这样的 this 别名
+function isThisReference(path: NodePath, node: t.Node): boolean {
+    if (t.isThisExpression(node)) {
+        return true;
+    }
+    if (!t.isIdentifier(node)) {
+        return false;
+    }
+    const binding = path.scope.getBinding(node.name);
+    return !!binding && binding.path.isVariableDeclarator() && t.isThisExpression(binding.path.node.init);
+}
+
+// 判断是否为 this.data 或 this.properties，返回单独使用时对应的 Vue 实例属性
+function getDataAccessor(node: t.MemberExpression): string | null {
+    if (!t.isThisExpression(node.object) || node.computed || !t.isIdentifier(node.property)) {
+        return null;
+    }
+    return Object.prototype.hasOwnProperty.call(DATA_ACCESSORS, node.property.name) ? DATA_ACCESSORS[node.property.name] : null;
+}
+
+/**
+ * 在组件选项中注册组件，模板中的标签已转换为组件名
+ * { ... } => { components: { NavBar }, ... }
+ * @param definition - 组件选项对象
+ * @param components - 组件名 => 导入路径
+ */
+function addComponents(definition: t.ObjectExpression, components: Record<string, string>): void {
+    const entries = Object.keys(components).map((name) => t.objectProperty(t.identifier(name), t.identifier(name), false, true));
+    if (entries.length === 0) {
+        return;
+    }
+
+    // 已有 components 时合并，显式注册的组件优先
+    const existing = definition.properties.find((property) => getKeyName(property) === "components");
+    if (existing && t.isObjectProperty(existing) && t.isObjectExpression(existing.value)) {
+        existing.value.properties.unshift(...entries);
+    } else if (!existing) {
+        definition.properties.unshift(t.objectProperty(t.identifier("components"), t.objectExpression(entries)));
+    }
+}
+
+// 添加组件的导入语句，放在已有导入之后
+function addComponentImports(program: t.Program, components: Record<string, string>): void {
+    const imports = Object.entries(components).map(([name, source]) => t.importDeclaration([t.importDefaultSpecifier(t.identifier(name))], t.stringLiteral(source)));
+    let index = 0;
+    while (index < program.body.length && t.isImportDeclaration(program.body[index])) {
+        index++;
+    }
+    program.body.splice(index, 0, ...imports);
+}
+
+// 将 @mpxjs/core 的导入改为从 vue 导入 defineComponent 和组合式 API
+function rewriteImports(program: t.Program): void {
+    const vueSpecifiers: t.ImportSpecifier[] = [t.importSpecifier(t.identifier("defineComponent"), t.identifier("defineComponent"))];
+    let firstImport = -1;
+
+    program.body = program.body.filter((statement, index) => {
+        if (!t.isImportDeclaration(statement) || statement.source.value !== "@mpxjs/core") {
+            return true;
+        }
+        if (firstImport < 0) {
+            firstImport = index;
+        }
+
+        statement.specifiers = statement.specifiers.filter((specifier) => {
+            if (!t.isImportSpecifier(specifier)) {
+                return true;
+            }
+            const imported = t.isIdentifier(specifier.imported) ? specifier.imported.name : specifier.imported.value;
+            if (CONSTRUCTORS.includes(imported)) {
+                return false;
+            }
+            if (VUE_APIS.includes(imported)) {
+                vueSpecifiers.push(specifier);
+                return false;
+            }
+            return true;
+        });
+        // 其余无法对应到 Vue 的导入保持不变
+        return statement.specifiers.length > 0;
+    });
+
+    const vueImport = t.importDeclaration(vueSpecifiers, t.stringLiteral("vue"));
+    const existing = program.body.find((statement) => t.isImportDeclaration(statement) && statement.source.value === "vue") as
+        | t.ImportDeclaration
+        | undefined;
+    if (existing) {
+        const names = existing.specifiers.map((specifier) => specifier.local.name);
+        existing.specifiers.push(...vueSpecifiers.filter((specifier) => !names.includes(specifier.local.name)));
+    } else {
+        program.body.splice(firstImport < 0 ? 0 : Math.min(firstImport, program.body.length), 0, vueImport);
+    }
+}
+
+// 获取对象属性或方法的静态键名
+function getKeyName(property: t.Node): string | null {
+    if (!t.isObjectProperty(property) && !t.isObjectMethod(property)) {
+        return null;
+    }
+    if (property.computed) {
+        return null;
+    }
+    if (t.isIdentifier(property.key)) {
+        return property.key.name;
+    }
+    if (t.isStringLiteral(property.key)) {
+        return property.key.value;
     }
+    return null;
 }
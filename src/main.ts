@@ -1,6 +1,9 @@
 import { mpxFileParser } from "./parser/mpxFileParser";
-import { addRefAndConvertToString, templateStringAddRef } from "./parser/mpxTemplateParser/addRef";
-import { MpxTemplateParser, parseMpxTemplate } from "./parser/mpxTemplateParser/mpxTemplateParser";
+import { astAddRefWithSourceMap } from "./parser/mpxTemplateParser/addRef";
+import { formatDiagnostic, relocateDiagnostic } from "./parser/mpxTemplateParser/diagnostics";
+import { MpxTemplateParser } from "./parser/mpxTemplateParser/mpxTemplateParser";
+import { SourceMapV3, originalPositionFor } from "./parser/mpxTemplateParser/sourceMap";
+import { ASTNode, Attribute, Diagnostic } from "./parser/mpxTemplateParser/types";
 
 import "./style.css";
 import * as monaco from "monaco-editor";
@@ -9,6 +12,15 @@ import * as monaco from "monaco-editor";
 let mpxEditor: monaco.editor.IStandaloneCodeEditor;
 let vueEditor: monaco.editor.IStandaloneCodeEditor;
 
+// 最近一次转换的结果，用于从 Vue 输出定位回 MPX 源码
+let lastConversion: {
+    map: SourceMapV3;
+    ast: ASTNode[];
+    templateStart: number; // 模板内容在 .mpx 文件中的偏移量
+    generatedLineOffset: number; // 模板代码在 Vue 输出中的起始行偏移
+} | null = null;
+let sourceHighlight: string[] = [];
+
 // 默认 MPX 模板
 const defaultMpxTemplate = `
 <template>
@@ -96,11 +108,72 @@ function initializeMonacoEditors() {
     }
 }
 
+// 渲染诊断信息列表
+function renderDiagnostics(container: HTMLElement, errors: Diagnostic[], warnings: Diagnostic[]) {
+    const renderSection = (kind: "error" | "warning", title: string, diagnostics: Diagnostic[]) => {
+        if (diagnostics.length === 0) return "";
+        const items = diagnostics.map((d) => `<li class="${kind}-item">${escapeHtml(formatDiagnostic(d))}</li>`).join("");
+        return `<div class="${kind}-section"><h3>${title}</h3><ul class="${kind}-list">${items}</ul></div>`;
+    };
+
+    container.innerHTML = renderSection("error", "错误", errors) + renderSection("warning", "警告", warnings);
+}
+
+function escapeHtml(text: string) {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// 查找包含指定偏移量的最内层节点或属性的范围
+function findSourceRange(ast: ASTNode[], offset: number): { start: number; end: number } | null {
+    let found: { start: number; end: number } | null = null;
+    const contains = (range?: { start: number; end: number }) => range && range.start <= offset && offset < range.end;
+
+    const visit = (nodes: ASTNode[]) => {
+        for (const node of nodes) {
+            if (contains(node.position)) found = node.position!;
+            if (contains(node.endTagPosition)) found = node.endTagPosition!;
+            const attributes: Attribute[] = node.attributes?.attributesAll || [];
+            const attr = attributes.find((item) => contains(item.position));
+            if (attr) found = attr.position!;
+            if (node.children) visit(node.children);
+        }
+    };
+
+    visit(ast);
+    return found;
+}
+
+// 点击 Vue 输出时，通过 Source Map 高亮对应的 MPX 源码
+function highlightSourceFor(position: monaco.Position) {
+    const mpxModel = mpxEditor.getModel();
+    if (!lastConversion || !mpxModel) return;
+
+    const generatedLine = position.lineNumber - lastConversion.generatedLineOffset;
+    const original = originalPositionFor(lastConversion.map, generatedLine, position.column - 1);
+    if (!original) return;
+
+    const offset = mpxModel.getOffsetAt({ lineNumber: original.line, column: original.column + 1 });
+    const range = findSourceRange(lastConversion.ast, offset - lastConversion.templateStart);
+    if (!range) return;
+
+    const start = mpxModel.getPositionAt(range.start + lastConversion.templateStart);
+    const end = mpxModel.getPositionAt(range.end + lastConversion.templateStart);
+    const selection = new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column);
+    sourceHighlight = mpxEditor.deltaDecorations(sourceHighlight, [{ range: selection, options: { className: "source-highlight" } }]);
+    mpxEditor.revealRangeInCenterIfOutsideViewport(selection);
+}
+
 // Web 界面交互
 function initializeApp() {
     // 初始化 Monaco Editor
     initializeMonacoEditors();
 
+    vueEditor.onMouseDown((event) => {
+        if (event.target.position) {
+            highlightSourceFor(event.target.position);
+        }
+    });
+
     const parseBtn = document.getElementById("parse-btn") as HTMLButtonElement;
     const astOutput = document.getElementById("ast-output") as HTMLDivElement;
     const tabBtns = document.querySelectorAll(".tab-btn");
@@ -122,14 +195,30 @@ function initializeApp() {
 
     // 解析按钮点击事件
     parseBtn.addEventListener("click", async () => {
-        const template = mpxEditor.getValue().trim();
-        if (!template) {
+        // 不去除首尾空白，保证 Source Map 中的行列与编辑器一致
+        const template = mpxEditor.getValue();
+        if (!template.trim()) {
             alert("请输入 MPX 模板代码！（目只处理 TEMPLATE 部分）");
             return;
         }
         try {
             const blocks = mpxFileParser(template);
-            const templateResult = templateStringAddRef(blocks.template || "");
+            const templateStart = blocks.templateLocation?.start || 0;
+            const parseResult = new MpxTemplateParser(blocks.template || "").parse();
+            // 诊断位置以模板内容为准，换算到编辑器中的 .mpx 文件
+            const relocate = (diagnostic: Diagnostic) => relocateDiagnostic(diagnostic, template, templateStart);
+            renderDiagnostics(astOutput, parseResult.errors.map(relocate), parseResult.warnings.map(relocate));
+            const { code: templateResult, map } = astAddRefWithSourceMap(parseResult.ast, {
+                source: "index.mpx",
+                sourceContent: template,
+                offset: blocks.templateLocation,
+            });
+            lastConversion = {
+                map,
+                ast: parseResult.ast,
+                templateStart,
+                generatedLineOffset: 1, // 模板代码前有一行 "<template>"
+            };
             // const scriptResult = await fetch('/babel/script', {
             //     method: 'POST',
             //     headers: {
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { analyzeMpxBindings } from "./mpxBindingAnalyzer";
+import { parseMpxFile } from "./mpxFileParser";
+
+// 分析 .mpx 文件，返回警告代码和名称
+function analyze(source: string) {
+    const { descriptor } = parseMpxFile(source);
+    return analyzeMpxBindings(descriptor).warnings.map((warning) => [warning.code, warning.args?.name]);
+}
+
+describe("analyzeMpxBindings", () => {
+    it("报告模板中未声明的数据和事件处理函数", () => {
+        const warnings = analyze(`<template><view bindtap="onTap">{{a}}{{b}}</view></template>
+<script>
+createComponent({ data: { a: 1 } })
+</script>`);
+        expect(warnings).toEqual([
+            ["undeclared-binding", "b"],
+            ["undeclared-event-handler", "onTap"],
+        ]);
+    });
+
+    it("报告模板和脚本中都没有使用的数据和方法", () => {
+        const warnings = analyze(`<template><view>{{a}}</view></template>
+<script>
+createComponent({ data: { a: 1, b: 2 }, methods: { unused() {} } })
+</script>`);
+        expect(warnings).toEqual([
+            ["unused-binding", "b"],
+            ["unused-method", "unused"],
+        ]);
+    });
+
+    it("脚本中通过 this.data、this.properties 和解构访问的字段视为已使用", () => {
+        const warnings = analyze(`<template><view /></template>
+<script>
+createComponent({
+  properties: { a: String, b: String, c: String },
+  data: { d: 1 },
+  attached() {
+    const { b } = this.properties
+    console.log(this.properties.a, b, this.data.d)
+    const that = this
+    that.c
+  }
+})
+</script>`);
+        expect(warnings).toEqual([]);
+    });
+});
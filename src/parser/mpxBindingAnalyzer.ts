@@ -0,0 +1,394 @@
+import { parse, parseExpression } from "@babel/parser";
+import * as t from "@babel/types";
+import type { MpxSFCBlock, MpxSFCDescriptor } from "./mpxFileParser";
+import { ASTTraverser } from "./mpxTemplateParser/ASTTraverser";
+import { DiagnosticOptions, DiagnosticRange, createDiagnostic } from "./mpxTemplateParser/diagnostics";
+import { collectIdentifiers } from "./mpxTemplateParser/expressionParser";
+import { MpxTemplateParser } from "./mpxTemplateParser/mpxTemplateParser";
+import { ASTNode, Attribute, Diagnostic, DiagnosticCode, DiagnosticLocale, ExpressionNode } from "./mpxTemplateParser/types";
+
+// 组件选项中声明模板绑定的字段，setup 为 setup() 返回的对象
+export type BindingSection = "data" | "properties" | "computed" | "methods" | "setup";
+
+// 脚本中声明的绑定
+interface Declaration {
+    name: string;
+    section: BindingSection;
+    range: DiagnosticRange;
+}
+
+// 模板中对数据或事件处理函数的引用
+interface Reference {
+    name: string;
+    range: DiagnosticRange;
+}
+
+export interface BindingAnalysisOptions {
+    locale?: DiagnosticLocale;
+}
+
+export interface BindingAnalysisResult {
+    declared: Record<string, BindingSection>; // 组件选项中声明的绑定
+    used: string[]; // 模板中使用的数据和方法（不含 wx:for 变量和 WXS 模块）
+    handlers: string[]; // 模板中绑定的事件处理函数
+    warnings: Diagnostic[];
+}
+
+// 创建组件的 Mpx 构造函数
+const CONSTRUCTORS = ["createComponent", "createPage"];
+
+// 在 data、properties、computed、methods 之外引入绑定的选项，存在时无法确定所有声明
+const MIXIN_OPTIONS = ["mixins", "behaviors"];
+
+// 不参与分析的模板元素：<template name> 的数据来自 <template is> 的 data
+const SKIPPED_TAGS = ["wxs", "import", "include"];
+
+// 模板与脚本的数据绑定分析器
+class MpxBindingAnalyzer {
+    private source: string = "";
+    private locale?: DiagnosticLocale;
+    private declarations: Map<string, Declaration> = new Map();
+    private complete: boolean = true; // 声明是否可以完整地静态分析，不完整时不报告未声明的引用
+    private scriptReferences: Set<string> = new Set(); // 脚本中通过 this / this.data / this.properties 访问的名称
+    private references: Reference[] = [];
+    private handlers: Reference[] = [];
+    private warnings: Diagnostic[] = [];
+
+    analyze(descriptor: MpxSFCDescriptor, options: BindingAnalysisOptions): BindingAnalysisResult {
+        this.source = descriptor.source;
+        this.locale = options.locale;
+        this.declarations = new Map();
+        this.complete = true;
+        this.scriptReferences = new Set();
+        this.references = [];
+        this.handlers = [];
+        this.warnings = [];
+
+        const definition = descriptor.script ? this.analyzeScript(descriptor.script) : null;
+        // 没有找到组件选项时无法判断声明，不做分析
+        if (definition && descriptor.template) {
+            this.analyzeTemplate(descriptor.template);
+            this.report();
+        }
+
+        return {
+            declared: Object.fromEntries([...this.declarations.values()].map((declaration) => [declaration.name, declaration.section])),
+            used: [...new Set(this.references.map((reference) => reference.name))],
+            handlers: [...new Set(this.handlers.map((handler) => handler.name))],
+            warnings: this.warnings,
+        };
+    }
+
+    // 解析脚本，收集组件选项中的声明和脚本中的引用，返回组件选项对象
+    private analyzeScript(block: MpxSFCBlock): t.ObjectExpression | null {
+        let program: t.Program;
+        try {
+            program = parse(block.content, { sourceType: "module", plugins: ["typescript", "jsx"], startIndex: block.loc.start }).program;
+        } catch {
+            // 语法错误由脚本转换处理
+            return null;
+        }
+
+        let definition: t.ObjectExpression | null = null;
+        for (const statement of program.body) {
+            const expression = t.isExpressionStatement(statement) ? statement.expression : t.isExportDefaultDeclaration(statement) ? statement.declaration : null;
+            if (
+                t.isCallExpression(expression) &&
+                t.isIdentifier(expression.callee) &&
+                CONSTRUCTORS.includes(expression.callee.name) &&
+                t.isObjectExpression(expression.arguments[0])
+            ) {
+                definition = expression.arguments[0];
+                this.collectDeclarations(definition, expression.callee.name === "createPage");
+                break;
+            }
+        }
+
+        if (definition) {
+            this.collectScriptReferences(program);
+        }
+        return definition;
+    }
+
+    // 收集组件选项中声明的绑定
+    private collectDeclarations(definition: t.ObjectExpression, isPage: boolean): void {
+        for (const property of definition.properties) {
+            const key = t.isSpreadElement(property) ? null : getKeyName(property);
+            if (key === null || MIXIN_OPTIONS.includes(key)) {
+                this.complete = false;
+                continue;
+            }
+
+            const value = t.isObjectProperty(property) ? property.value : property;
+            if (key === "data" || key === "setup") {
+                // data: {...}、data() { return {...} } 和 setup() { return {...} }
+                const object = t.isObjectExpression(value) && key === "data" ? value : getReturnedObject(value);
+                if (object) {
+                    this.addDeclarations(object, key);
+                } else {
+                    this.complete = false;
+                }
+            } else if (key === "properties" || key === "computed" || key === "methods") {
+                if (t.isObjectExpression(value)) {
+                    this.addDeclarations(value, key);
+                } else {
+                    this.complete = false;
+                }
+            } else if (isPage && isFunction(value) && !/^on[A-Z]/.test(key)) {
+                // 页面可以把方法直接写在选项顶层，on 开头的是页面生命周期和事件
+                this.addDeclaration(key, "methods", (property as t.ObjectProperty | t.ObjectMethod).key);
+            }
+        }
+    }
+
+    private addDeclarations(object: t.ObjectExpression, section: BindingSection): void {
+        for (const property of object.properties) {
+            const key = t.isSpreadElement(property) ? null : getKeyName(property);
+            if (key === null) {
+                // ...mapState() 等展开的内容无法静态分析
+                this.complete = false;
+                continue;
+            }
+            this.addDeclaration(key, section, (property as t.ObjectProperty | t.ObjectMethod).key);
+        }
+    }
+
+    // 同名声明保留先出现的
+    private addDeclaration(name: string, section: BindingSection, key: t.Node): void {
+        if (!this.declarations.has(name)) {
+            this.declarations.set(name, { name, section, range: { start: key.start ?? 0, end: key.end ?? 0 } });
+        }
+    }
+
+    /**
+     * 收集脚本中访问的实例属性
+     * - this.a、this.data.a、this.properties.a、that.a（const that = this）
+     * - const { a } = this / this.data / this.properties
+     * @param program - 脚本 AST
+     */
+    private collectScriptReferences(program: t.Program): void {
+        const aliases = new Set<string>();
+        t.traverseFast(program, (node) => {
+            if (t.isVariableDeclarator(node) && t.isIdentifier(node.id) && t.isThisExpression(node.init)) {
+                aliases.add(node.id.name);
+            }
+        });
+
+        const isInstance = (node: t.Node | null | undefined): boolean =>
+            !!node && (t.isThisExpression(node) || (t.isIdentifier(node) && aliases.has(node.name)));
+        const isData = (node: t.Node | null | undefined): boolean =>
+            !!node &&
+            t.isMemberExpression(node) &&
+            isInstance(node.object) &&
+            !node.computed &&
+            t.isIdentifier(node.property) &&
+            (node.property.name === "data" || node.property.name === "properties");
+
+        t.traverseFast(program, (node) => {
+            if (t.isMemberExpression(node) && (isInstance(node.object) || isData(node.object))) {
+                const name = node.computed ? (t.isStringLiteral(node.property) ? node.property.value : null) : t.isIdentifier(node.property) ? node.property.name : null;
+                if (name) {
+                    this.scriptReferences.add(name);
+                }
+            } else if (t.isVariableDeclarator(node) && t.isObjectPattern(node.id) && (isInstance(node.init) || isData(node.init))) {
+                for (const property of node.id.properties) {
+                    const name = t.isObjectProperty(property) ? getKeyName(property) : null;
+                    if (name) {
+                        this.scriptReferences.add(name);
+                    }
+                }
+            }
+        });
+    }
+
+    // 收集模板中的引用，位置换算到 .mpx 文件中
+    private analyzeTemplate(block: MpxSFCBlock): void {
+        const { ast } = new MpxTemplateParser(block.content, { locale: this.locale }).parse();
+        const modules = new Set<string>();
+        new ASTTraverser().traverse(ast, {
+            enter: (node) => {
+                const name = node.name === "wxs" ? node.attributes?.props?.module?.trim() : undefined;
+                if (name) {
+                    modules.add(name);
+                }
+            },
+        });
+
+        // WXS 模块在整个模板中可用
+        this.walk(ast, modules, block.loc.start);
+    }
+
+    /**
+     * 遍历模板节点
+     * wx:for-item / wx:for-index 声明的变量在元素自身（wx:for 的值除外）和子节点中可用
+     * @param nodes - 同级节点
+     * @param scope - 当前可用的模板局部变量
+     * @param offset - 模板内容在 .mpx 文件中的偏移量
+     */
+    private walk(nodes: ASTNode[], scope: Set<string>, offset: number): void {
+        for (const node of nodes) {
+            if (node.type !== "element") {
+                if (node.expression) {
+                    this.collectExpression(node.expression, scope, offset);
+                }
+                continue;
+            }
+            const props: Record<string, string> = node.attributes?.props || {};
+            if (SKIPPED_TAGS.includes(node.name || "") || (node.name === "template" && "name" in props)) {
+                continue;
+            }
+
+            const all: Attribute[] = node.attributes?.attributesAll || [];
+            const inner = this.getElementScope(all, scope);
+            for (const attr of all) {
+                const kind = attr.directive?.kind;
+                if (kind === "for-item" || kind === "for-index") {
+                    continue;
+                }
+                if (kind === "event" && !/\{\{/.test(attr.value)) {
+                    this.collectHandler(attr, inner, offset);
+                } else if (attr.expression) {
+                    this.collectExpression(attr.expression, kind === "for" ? scope : inner, offset);
+                }
+            }
+
+            this.walk(node.children || [], inner, offset);
+        }
+    }
+
+    // 元素上有 wx:for 时，在当前作用域上加入列表项和索引变量
+    private getElementScope(attributes: Attribute[], scope: Set<string>): Set<string> {
+        if (!attributes.some((attr) => attr.directive?.kind === "for")) {
+            return scope;
+        }
+        const item = attributes.find((attr) => attr.directive?.kind === "for-item")?.value.trim() || "item";
+        const index = attributes.find((attr) => attr.directive?.kind === "for-index")?.value.trim() || "index";
+        return new Set([...scope, item, index]);
+    }
+
+    private collectExpression(expression: ExpressionNode, scope: Set<string>, offset: number): void {
+        for (const part of expression.parts) {
+            if (part.type !== "dynamic" || !part.expression) {
+                continue;
+            }
+            const range = { start: part.position.start + offset, end: part.position.end + offset };
+            for (const name of collectIdentifiers(part.expression)) {
+                if (!scope.has(name)) {
+                    this.references.push({ name, range });
+                }
+            }
+        }
+    }
+
+    // 事件处理函数：方法名，或 Mpx 的内联传参写法 handler(item, $event)
+    private collectHandler(attr: Attribute, scope: Set<string>, offset: number): void {
+        const value = attr.value.trim();
+        const position = attr.position || { start: 0, end: 0 };
+        const range = { start: position.start + offset, end: position.end + offset };
+        if (!value) {
+            return;
+        }
+        if (/^[A-Za-z_$][\w$]*$/.test(value)) {
+            this.handlers.push({ name: value, range });
+            return;
+        }
+
+        let expression: t.Expression;
+        try {
+            expression = parseExpression(value);
+        } catch {
+            return;
+        }
+        if (!t.isCallExpression(expression) || !t.isIdentifier(expression.callee)) {
+            return;
+        }
+        this.handlers.push({ name: expression.callee.name, range });
+        for (const arg of expression.arguments) {
+            if (!t.isExpression(arg)) {
+                continue;
+            }
+            for (const name of collectIdentifiers(arg)) {
+                if (name !== "$event" && !scope.has(name)) {
+                    this.references.push({ name, range });
+                }
+            }
+        }
+    }
+
+    private report(): void {
+        const used = new Set([...this.references, ...this.handlers].map((reference) => reference.name));
+
+        if (this.complete) {
+            for (const reference of this.references) {
+                if (!this.declarations.has(reference.name)) {
+                    this.addWarning("undeclared-binding", reference.range, { args: { name: reference.name } });
+                }
+            }
+            for (const handler of this.handlers) {
+                if (!this.declarations.has(handler.name)) {
+                    this.addWarning("undeclared-event-handler", handler.range, { args: { name: handler.name } });
+                }
+            }
+        }
+
+        for (const declaration of this.declarations.values()) {
+            if (used.has(declaration.name) || this.scriptReferences.has(declaration.name)) {
+                continue;
+            }
+            if (declaration.section === "methods") {
+                this.addWarning("unused-method", declaration.range, { args: { name: declaration.name } });
+            } else {
+                this.addWarning("unused-binding", declaration.range, { args: { name: declaration.name, section: declaration.section } });
+            }
+        }
+    }
+
+    private addWarning(code: DiagnosticCode, range: DiagnosticRange, options: DiagnosticOptions = {}): void {
+        this.warnings.push(createDiagnostic(this.source, code, "warning", range, { ...options, locale: this.locale }));
+    }
+}
+
+// 获取属性的键名，计算属性名返回 null
+function getKeyName(property: t.ObjectProperty | t.ObjectMethod): string | null {
+    if (property.computed) {
+        return t.isStringLiteral(property.key) ? property.key.value : null;
+    }
+    if (t.isIdentifier(property.key)) {
+        return property.key.name;
+    }
+    return t.isStringLiteral(property.key) || t.isNumericLiteral(property.key) ? String(property.key.value) : null;
+}
+
+function isFunction(node: t.Node): boolean {
+    return t.isObjectMethod(node) || t.isFunctionExpression(node) || t.isArrowFunctionExpression(node);
+}
+
+// 函数直接返回的对象字面量，如 data() { return {...} } 或 () => ({...})
+function getReturnedObject(node: t.Node): t.ObjectExpression | null {
+    if (!isFunction(node)) {
+        return null;
+    }
+    const body = (node as t.ObjectMethod | t.FunctionExpression | t.ArrowFunctionExpression).body;
+    if (t.isObjectExpression(body)) {
+        return body;
+    }
+    if (!t.isBlockStatement(body)) {
+        return null;
+    }
+    const statement = body.body.find((item) => t.isReturnStatement(item)) as t.ReturnStatement | undefined;
+    return statement && t.isObjectExpression(statement.argument) ? statement.argument : null;
+}
+
+/**
+ * 分析模板与脚本的数据绑定
+ * - 模板中使用但没有在 data、properties、computed、methods 或 setup() 返回值中声明的数据和事件处理函数
+ * - 声明后在模板和脚本中都没有使用的数据和方法
+ * wx:for 的列表项、索引变量和 WXS 模块不需要声明；组件选项中有 mixins、behaviors 或展开运算时不报告未声明的引用
+ * @param descriptor - parseMpxFile 返回的文件描述对象
+ * @param options - 诊断信息语言
+ * @returns 声明、引用和诊断信息，位置对应 .mpx 文件
+ */
+export function analyzeMpxBindings(descriptor: MpxSFCDescriptor, options: BindingAnalysisOptions = {}): BindingAnalysisResult {
+    const analyzer = new MpxBindingAnalyzer();
+    return analyzer.analyze(descriptor, options);
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { parseMpxFile, selectMpxBlocks } from "./mpxFileParser";
+
+describe("parseMpxFile", () => {
+    it("拆分各个块，记录属性和内容在文件中的位置", () => {
+        const source = `<template>\n  <view>{{a}}</view>\n</template>\n<script lang="ts" setup>\nconst a = "</template>"\n</script>\n<style scoped lang=stylus>.a{}</style>\n<style>.b{}</style>\n<script type="application/json">{}</script>`;
+        const { descriptor, errors } = parseMpxFile(source);
+        expect(errors).toEqual([]);
+        expect(descriptor.template).toMatchObject({
+            content: "\n  <view>{{a}}</view>\n",
+            loc: { start: 10, end: 32, line: 1, column: 11 },
+            blockLoc: { start: 0, end: 43 },
+        });
+        expect(descriptor.script).toBeNull();
+        expect(descriptor.scriptSetup).toMatchObject({ content: '\nconst a = "</template>"\n', lang: "ts", setup: true, loc: { line: 4, column: 25 } });
+        expect(descriptor.styles.map((style) => [style.content, style.lang, style.scoped])).toEqual([
+            [".a{}", "stylus", true],
+            [".b{}", undefined, undefined],
+        ]);
+        expect(descriptor.json).toMatchObject({ tag: "script", content: "{}", loc: { line: 9, column: 33 } });
+        expect(source.slice(descriptor.json!.loc.start, descriptor.json!.loc.end)).toBe("{}");
+    });
+
+    it("未知的顶层块作为自定义块", () => {
+        const { descriptor } = parseMpxFile(`<i18n locale="en">{ "a": 1 }</i18n>`);
+        expect(descriptor.customBlocks).toMatchObject([{ type: "custom", tag: "i18n", attrs: { locale: "en" }, content: '{ "a": 1 }' }]);
+    });
+
+    it("报告重复的块和缺少结束标签的块", () => {
+        const { descriptor, errors } = parseMpxFile("<template>a</template>\n<template>b</template>\n<style>", { locale: "en" });
+        expect(descriptor.template!.content).toBe("a");
+        expect(errors.map((error) => [error.code, error.line, error.column])).toEqual([
+            ["duplicate-block", 2, 1],
+            ["unclosed-block", 3, 1],
+        ]);
+    });
+
+    it("解析双引号、单引号、无引号和没有值的属性", () => {
+        const { descriptor } = parseMpxFile(`<style lang = 'less' scoped data-a=x/y></style><template\n  name="a">x</template>`);
+        expect(descriptor.styles[0].attrs).toEqual({ lang: "less", scoped: true, "data-a": "x/y" });
+        expect(descriptor.template).toMatchObject({ attrs: { name: "a" }, content: "x" });
+    });
+
+    it("未闭合的开始标签不会导致回溯超时", () => {
+        const { descriptor, errors } = parseMpxFile(`<template${' a="x"'.repeat(5000)}\n<script>createComponent({})</script>`);
+        expect(descriptor.template).toBeNull();
+        expect(descriptor.script!.content).toBe("createComponent({})");
+        expect(errors).toEqual([]);
+    });
+
+    it("mode 不同的块分别保留，按目标平台选用", () => {
+        const { descriptor, errors } = parseMpxFile(
+            `<template>web</template>\n<template mode="ali">ali</template>\n<template mode="ali">again</template>\n<style>.a{}</style><style mode="wx|ali">.b{}</style>`
+        );
+        expect(errors.map((error) => [error.code, error.line])).toEqual([["duplicate-block", 3]]);
+        expect(descriptor.template!.content).toBe("web");
+        expect(descriptor.modeBlocks.map((block) => block.content)).toEqual(["ali"]);
+
+        const ali = selectMpxBlocks(descriptor, "ali");
+        expect(ali.template!.content).toBe("ali");
+        expect(ali.styles.map((style) => style.content)).toEqual([".a{}", ".b{}"]);
+
+        const web = selectMpxBlocks(descriptor, "web");
+        expect(web.template!.content).toBe("web");
+        expect(web.styles.map((style) => style.content)).toEqual([".a{}"]);
+    });
+});
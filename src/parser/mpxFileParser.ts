@@ -1,35 +1,374 @@
+import { createDiagnostic, getLineColumn } from "./mpxTemplateParser/diagnostics";
+import { Diagnostic, DiagnosticLocale } from "./mpxTemplateParser/types";
+
 interface MPXBlock {
     template?: string;
+    // 去除首尾空白后的模板内容在 .mpx 文件中的位置（行列从 1 开始）
+    templateLocation?: { start: number; line: number; column: number };
     script?: string;
     style?: string;
     json?: string;
 }
+
+// 块在 .mpx 文件中的位置，行列从 1 开始
+export interface MpxBlockLocation {
+    start: number;
+    end: number;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+}
+
+// .mpx 文件中的顶层块
+export interface MpxSFCBlock {
+    type: "template" | "script" | "json" | "style" | "custom";
+    tag: string; // 原始标签名，自定义块据此区分
+    attrs: Record<string, string | true>;
+    content: string;
+    lang?: string;
+    src?: string;
+    name?: string;
+    mode?: string;
+    setup?: boolean;
+    scoped?: boolean;
+    loc: MpxBlockLocation; // 块内容的位置（不含开始/结束标签）
+    blockLoc: MpxBlockLocation; // 整个块的位置（含开始/结束标签）
+}
+
+// .mpx 文件描述对象
+export interface MpxSFCDescriptor {
+    source: string;
+    template: MpxSFCBlock | null;
+    script: MpxSFCBlock | null;
+    scriptSetup: MpxSFCBlock | null;
+    json: MpxSFCBlock | null;
+    styles: MpxSFCBlock[];
+    customBlocks: MpxSFCBlock[];
+    modeBlocks: MpxSFCBlock[]; // 带 mode 属性的 template、script、json 块，由 selectMpxBlocks 按目标平台选用
+}
+
+export interface MpxFileParseResult {
+    descriptor: MpxSFCDescriptor;
+    errors: Diagnostic[];
+    warnings: Diagnostic[];
+}
+
+// 块的开始标签
+interface StartTag {
+    tag: string;
+    attrs: Record<string, string | true>;
+    selfClosing: boolean;
+    end: number; // ">" 之后的位置
+}
+
+const TAG_NAME = /[a-zA-Z][\w-]*/y;
+
+/**
+ * 解析 .mpx 文件，拆分出 template、script、json、style 和自定义块
+ * @param source - .mpx 文件内容
+ * @param options - 诊断信息语言
+ * @returns 文件描述对象和诊断信息
+ */
+export function parseMpxFile(source: string, options: { locale?: DiagnosticLocale } = {}): MpxFileParseResult {
+    const descriptor: MpxSFCDescriptor = {
+        source,
+        template: null,
+        script: null,
+        scriptSetup: null,
+        json: null,
+        styles: [],
+        customBlocks: [],
+        modeBlocks: [],
+    };
+    const errors: Diagnostic[] = [];
+    const warnings: Diagnostic[] = [];
+    let index = 0;
+
+    while (index < source.length) {
+        const tagStart = source.indexOf("<", index);
+        if (tagStart < 0) break;
+
+        // 跳过顶层注释
+        if (source.startsWith("<!--", tagStart)) {
+            const commentEnd = source.indexOf("-->", tagStart + 4);
+            index = commentEnd < 0 ? source.length : commentEnd + 3;
+            continue;
+        }
+
+        const startTag = readStartTag(source, tagStart);
+        if (!startTag) {
+            index = tagStart + 1;
+            continue;
+        }
+
+        const { tag, attrs, selfClosing } = startTag;
+        const contentStart = startTag.end;
+        let contentEnd = contentStart;
+        let blockEnd = contentStart;
+
+        if (!selfClosing) {
+            const close = findBlockEnd(source, tag, contentStart);
+            if (close) {
+                contentEnd = close.start;
+                blockEnd = close.end;
+            } else {
+                contentEnd = blockEnd = source.length;
+                errors.push(
+                    createDiagnostic(source, "unclosed-block", "error", { start: tagStart, end: contentStart }, {
+                        args: { tag },
+                        fix: { messageId: "fix-insert", args: { text: `</${tag}>` }, start: source.length, end: source.length, replacement: `</${tag}>` },
+                        locale: options.locale,
+                    })
+                );
+            }
+        }
+
+        const block = createBlock(source, tag, attrs, contentStart, contentEnd, tagStart, blockEnd);
+        addBlock(descriptor, block, errors, options.locale);
+        index = blockEnd;
+    }
+
+    return { descriptor, errors, warnings };
+}
+
+/**
+ * 解析 .mpx 文件，返回各块去除首尾空白后的内容
+ * @param content - .mpx 文件内容
+ * @returns 各块内容
+ */
 export function mpxFileParser(content: string): MPXBlock {
+    const { descriptor } = parseMpxFile(content);
     const blocks: MPXBlock = {};
 
-    // 匹配 template 标签
-    const templateMatch = content.match(/<template>([\s\S]*?)<\/template>/);
-    if (templateMatch) {
-        blocks.template = templateMatch[1].trim();
+    if (descriptor.template) {
+        const raw = descriptor.template.content;
+        const start = descriptor.template.loc.start + (raw.length - raw.trimStart().length);
+        blocks.template = raw.trim();
+        blocks.templateLocation = { start, ...getLineColumn(content, start) };
+    }
+    if (descriptor.script) {
+        blocks.script = descriptor.script.content.trim();
+    }
+    if (descriptor.styles.length > 0) {
+        blocks.style = descriptor.styles[0].content.trim();
+    }
+    if (descriptor.json) {
+        blocks.json = descriptor.json.content.trim();
+    }
+
+    return blocks;
+}
+
+// 查找块的结束标签；template 中可以嵌套 <template name> 定义，需要计算嵌套层级
+function findBlockEnd(source: string, tag: string, from: number): { start: number; end: number } | null {
+    if (tag !== "template") {
+        const close = new RegExp(`</${tag}\\s*>`, "g");
+        close.lastIndex = from;
+        const match = close.exec(source);
+        return match ? { start: match.index, end: match.index + match[0].length } : null;
     }
 
-    // 匹配 script 标签（排除 json 类型）
-    const scriptMatch = content.match(/<script(?!\s+type="application\/json").*?>([\s\S]*?)<\/script>/);
-    if (scriptMatch) {
-        blocks.script = scriptMatch[1].trim();
+    const pattern = /<template|<\/template\s*>/g;
+    pattern.lastIndex = from;
+    let depth = 1;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(source))) {
+        if (match[0].startsWith("</")) {
+            depth--;
+            if (depth === 0) {
+                return { start: match.index, end: match.index + match[0].length };
+            }
+            continue;
+        }
+        const nested = readStartTag(source, match.index);
+        if (nested && nested.tag === "template") {
+            pattern.lastIndex = nested.end;
+            if (!nested.selfClosing) {
+                depth++;
+            }
+        }
     }
 
-    // 匹配 style 标签
-    const styleMatch = content.match(/<style.*?>([\s\S]*?)<\/style>/);
-    if (styleMatch) {
-        blocks.style = styleMatch[1].trim();
+    return null;
+}
+
+/**
+ * 读取开始标签，逐个字符扫描，不合法时返回 null
+ * 属性值可以是双引号、单引号或无引号，没有值的属性记为 true
+ * @param source - .mpx 文件内容
+ * @param start - "<" 的位置
+ * @returns 标签名、属性和结束位置
+ */
+function readStartTag(source: string, start: number): StartTag | null {
+    TAG_NAME.lastIndex = start + 1;
+    const name = TAG_NAME.exec(source);
+    if (!name) {
+        return null;
     }
 
-    // 匹配 json 配置
-    const jsonMatch = content.match(/<script type="application\/json">([\s\S]*?)<\/script>/);
-    if (jsonMatch) {
-        blocks.json = jsonMatch[1].trim();
+    const attrs: Record<string, string | true> = {};
+    let index = TAG_NAME.lastIndex;
+    while (index < source.length) {
+        const whitespaceStart = index;
+        index = skipWhitespace(source, index);
+        if (source[index] === ">") {
+            return { tag: name[0], attrs, selfClosing: false, end: index + 1 };
+        }
+        if (source.startsWith("/>", index)) {
+            return { tag: name[0], attrs, selfClosing: true, end: index + 2 };
+        }
+        // 属性之间必须有空白
+        if (index === whitespaceStart) {
+            return null;
+        }
+
+        const nameStart = index;
+        while (index < source.length && !/[\s"'=/<>]/.test(source[index])) index++;
+        if (index === nameStart) {
+            return null;
+        }
+        const attrName = source.slice(nameStart, index);
+
+        let value: string | true = true;
+        const equals = skipWhitespace(source, index);
+        if (source[equals] === "=") {
+            index = skipWhitespace(source, equals + 1);
+            const quote = source[index];
+            if (quote === '"' || quote === "'") {
+                const close = source.indexOf(quote, index + 1);
+                if (close < 0) {
+                    return null;
+                }
+                value = source.slice(index + 1, close);
+                index = close + 1;
+            } else {
+                const valueStart = index;
+                while (index < source.length && !/[\s"'=<>`]/.test(source[index])) index++;
+                if (index === valueStart) {
+                    return null;
+                }
+                value = source.slice(valueStart, index);
+            }
+        }
+        attrs[attrName] = value;
     }
 
-    return blocks;
+    return null;
+}
+
+// 跳过空白字符
+function skipWhitespace(source: string, index: number): number {
+    while (index < source.length && /\s/.test(source[index])) index++;
+    return index;
+}
+
+// 计算位置信息
+function createLocation(source: string, start: number, end: number): MpxBlockLocation {
+    const startPos = getLineColumn(source, start);
+    const endPos = getLineColumn(source, end);
+    return { start, end, line: startPos.line, column: startPos.column, endLine: endPos.line, endColumn: endPos.column };
+}
+
+// 根据标签和属性创建块
+function createBlock(
+    source: string,
+    tag: string,
+    attrs: Record<string, string | true>,
+    contentStart: number,
+    contentEnd: number,
+    blockStart: number,
+    blockEnd: number
+): MpxSFCBlock {
+    const stringAttr = (name: string) => (typeof attrs[name] === "string" ? (attrs[name] as string) : undefined);
+
+    let type: MpxSFCBlock["type"] = "custom";
+    if (tag === "template" || tag === "style") {
+        type = tag;
+    } else if (tag === "script") {
+        // Mpx 的 JSON 配置块：<script type="application/json"> 或 <script name="json">
+        type = attrs.type === "application/json" || attrs.name === "json" ? "json" : "script";
+    }
+
+    const block: MpxSFCBlock = {
+        type,
+        tag,
+        attrs,
+        content: source.slice(contentStart, contentEnd),
+        loc: createLocation(source, contentStart, contentEnd),
+        blockLoc: createLocation(source, blockStart, blockEnd),
+    };
+
+    const lang = stringAttr("lang");
+    if (lang) block.lang = lang;
+    const src = stringAttr("src");
+    if (src) block.src = src;
+    const name = stringAttr("name");
+    if (name) block.name = name;
+    const mode = stringAttr("mode");
+    if (mode) block.mode = mode;
+    if (attrs.setup !== undefined) block.setup = true;
+    if (attrs.scoped !== undefined) block.scoped = true;
+
+    return block;
+}
+
+// 块在描述对象中对应的字段
+function getBlockKey(block: MpxSFCBlock): "template" | "script" | "scriptSetup" | "json" {
+    return block.type === "script" && block.setup ? "scriptSetup" : (block.type as "template" | "script" | "json");
+}
+
+// 将块加入描述对象，mode 相同的 template/script/json 块只保留第一个
+function addBlock(descriptor: MpxSFCDescriptor, block: MpxSFCBlock, errors: Diagnostic[], locale?: DiagnosticLocale): void {
+    if (block.type === "style") {
+        descriptor.styles.push(block);
+        return;
+    }
+    if (block.type === "custom") {
+        descriptor.customBlocks.push(block);
+        return;
+    }
+
+    const key = getBlockKey(block);
+    const existing = block.mode
+        ? descriptor.modeBlocks.find((item) => getBlockKey(item) === key && item.mode === block.mode)
+        : descriptor[key];
+    if (!existing) {
+        if (block.mode) {
+            descriptor.modeBlocks.push(block);
+        } else {
+            descriptor[key] = block;
+        }
+        return;
+    }
+
+    errors.push(
+        createDiagnostic(descriptor.source, "duplicate-block", "error", { start: block.blockLoc.start, end: block.loc.start }, {
+            args: { tag: block.type === "json" ? "script json" : block.tag },
+            related: [{ messageId: "note-first-block", start: existing.blockLoc.start, end: existing.loc.start }],
+            locale,
+        })
+    );
+}
+
+/**
+ * 按目标平台选用块：template、script、json 优先使用 mode 匹配的块，没有时使用不带 mode 的块；
+ * style 保留不带 mode 和 mode 匹配的块
+ * @param descriptor - parseMpxFile 返回的文件描述对象
+ * @param mode - 目标平台，mode 属性可以用 "|" 分隔多个平台
+ * @returns 新的描述对象
+ */
+export function selectMpxBlocks(descriptor: MpxSFCDescriptor, mode: string): MpxSFCDescriptor {
+    const matches = (block: MpxSFCBlock) => !!block.mode && block.mode.split("|").some((item) => item.trim() === mode);
+    const pick = (key: ReturnType<typeof getBlockKey>) => descriptor.modeBlocks.find((block) => getBlockKey(block) === key && matches(block)) || descriptor[key];
+
+    return {
+        ...descriptor,
+        template: pick("template"),
+        script: pick("script"),
+        scriptSetup: pick("scriptSetup"),
+        json: pick("json"),
+        styles: descriptor.styles.filter((block) => !block.mode || matches(block)),
+    };
 }
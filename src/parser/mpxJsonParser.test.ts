@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { mpxJsonParser } from "./mpxJsonParser";
+
+describe("mpxJsonParser", () => {
+    it("解析 JSON 配置并记录字段位置", () => {
+        const content = `{ "component": true, "usingComponents": { "nav-bar": "./nav-bar" } }`;
+        const result = mpxJsonParser(content);
+        expect(result.errors).toEqual([]);
+        expect(result.config).toEqual({ component: true, usingComponents: { "nav-bar": "./nav-bar" } });
+        expect(content.slice(result.locations["usingComponents.nav-bar"].start, result.locations["usingComponents.nav-bar"].end)).toBe(`"nav-bar": "./nav-bar"`);
+    });
+
+    it('解析 <script name="json"> 中的静态对象', () => {
+        const result = mpxJsonParser(`module.exports = { navigationBarTitleText: "标题", disableScroll: true }`, { lang: "js" });
+        expect(result.errors).toEqual([]);
+        expect(result.config).toEqual({ navigationBarTitleText: "标题", disableScroll: true });
+    });
+
+    it("校验常用的页面和组件字段", () => {
+        const result = mpxJsonParser(
+            JSON.stringify({
+                componentPlaceholder: { "nav-bar": "view" },
+                styleIsolation: "apply-shared",
+                navigationStyle: "custom",
+                disableScroll: true,
+                renderer: "skyline",
+            })
+        );
+        expect(result.errors).toEqual([]);
+        expect(result.warnings).toEqual([]);
+        expect(result.config.componentPlaceholder).toEqual({ "nav-bar": "view" });
+    });
+
+    it("类型和取值错误报告为错误，未知字段报告为 info 并保留", () => {
+        const result = mpxJsonParser(JSON.stringify({ disableScroll: "yes", navigationStyle: "none", customField: 1 }));
+        expect(result.errors.map((error) => error.code)).toEqual(["json-type-mismatch", "json-invalid-value"]);
+        expect(result.warnings.map((warning) => [warning.code, warning.severity])).toEqual([["json-unknown-field", "info"]]);
+        expect(result.config).toEqual({ customField: 1 });
+    });
+
+    it("JSON 语法错误报告出错的行列", () => {
+        const trailingComma = mpxJsonParser(`{\n  "component": true,\n  "usingComponents": {},\n}`);
+        expect(trailingComma.errors).toMatchObject([{ code: "invalid-json", line: 4, column: 1 }]);
+        const missingComma = mpxJsonParser(`{\n  "component": true\n  "styleIsolation": "shared"\n}`);
+        expect(missingComma.errors).toMatchObject([{ code: "invalid-json", line: 3, column: 3 }]);
+        const unquoted = mpxJsonParser(`{\n  "usingComponents": {\n    "a": 'x'\n  }\n}`);
+        expect(unquoted.errors).toMatchObject([{ code: "invalid-json", line: 3, column: 10 }]);
+    });
+
+    it("JS 配置语法错误报告出错的行列", () => {
+        const result = mpxJsonParser(`module.exports = {\n  component: true,\n  a: ,\n}`, { lang: "js" });
+        expect(result.errors).toMatchObject([{ code: "invalid-json", line: 3, column: 6 }]);
+    });
+});
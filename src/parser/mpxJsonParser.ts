@@ -1,3 +1,468 @@
-export function mpxJsonParser(jsonContent: string) {
-    return jsonContent
-}
\ No newline at end of file
+import { parse, parseExpression } from "@babel/parser";
+import * as t from "@babel/types";
+import type { MpxSFCBlock } from "./mpxFileParser";
+import { DiagnosticOptions, DiagnosticRange, createDiagnostic } from "./mpxTemplateParser/diagnostics";
+import { Diagnostic, DiagnosticCode, DiagnosticLocale } from "./mpxTemplateParser/types";
+
+// 抽象组件声明：true 或 { default: 默认实现组件路径 }
+export type ComponentGeneric = boolean | { default?: string };
+
+// 页面/组件 JSON 配置
+export interface MpxJsonConfig {
+    component?: boolean;
+    usingComponents?: Record<string, string>;
+    componentGenerics?: Record<string, ComponentGeneric>;
+    componentPlaceholder?: Record<string, string>; // 组件名 => 占位组件名
+    styleIsolation?: "isolated" | "apply-shared" | "shared";
+    navigationBarTitleText?: string;
+    navigationBarBackgroundColor?: string;
+    navigationBarTextStyle?: "black" | "white";
+    navigationStyle?: "default" | "custom";
+    backgroundColor?: string;
+    backgroundTextStyle?: "dark" | "light";
+    enablePullDownRefresh?: boolean;
+    onReachBottomDistance?: number;
+    disableScroll?: boolean;
+    [key: string]: unknown;
+}
+
+export interface MpxJsonParseResult {
+    config: MpxJsonConfig;
+    // 各字段在源码中的位置，键为字段路径，如 "usingComponents.nav-bar"
+    locations: Record<string, DiagnosticRange>;
+    errors: Diagnostic[];
+    warnings: Diagnostic[]; // 包括未知配置项等 info 级别的提示
+}
+
+export interface MpxJsonParserOptions {
+    lang?: "json" | "js"; // json 为 <script type="application/json">，js 为 <script name="json">
+    source?: string; // 完整的 .mpx 文件内容，用于把诊断位置映射回 .mpx 文件
+    offset?: number; // 配置内容在 source 中的偏移量
+    locale?: DiagnosticLocale;
+}
+
+// 字段校验规则
+interface FieldRule {
+    type: "boolean" | "string" | "number" | "object" | "componentMap" | "genericMap";
+    values?: string[];
+}
+
+// 页面和组件配置的字段，未列出的字段作为 info 提示并原样保留
+const configSchema: Record<string, FieldRule> = {
+    component: { type: "boolean" },
+    usingComponents: { type: "componentMap" },
+    componentGenerics: { type: "genericMap" },
+    componentPlaceholder: { type: "componentMap" },
+    componentFramework: { type: "string", values: ["exparser", "glass-easel"] },
+    styleIsolation: { type: "string", values: ["isolated", "apply-shared", "shared", "page-isolated", "page-apply-shared", "page-shared"] },
+    navigationBarTitleText: { type: "string" },
+    navigationBarBackgroundColor: { type: "string" },
+    navigationBarTextStyle: { type: "string", values: ["black", "white"] },
+    navigationStyle: { type: "string", values: ["default", "custom"] },
+    backgroundColor: { type: "string" },
+    backgroundColorTop: { type: "string" },
+    backgroundColorBottom: { type: "string" },
+    backgroundColorContent: { type: "string" },
+    backgroundTextStyle: { type: "string", values: ["dark", "light"] },
+    enablePullDownRefresh: { type: "boolean" },
+    onReachBottomDistance: { type: "number" },
+    disableScroll: { type: "boolean" },
+    pageOrientation: { type: "string", values: ["portrait", "landscape", "auto"] },
+    homeButton: { type: "boolean" },
+    initialRenderingCache: { type: "string", values: ["static", "dynamic"] },
+    restartStrategy: { type: "string", values: ["homePage", "homePageAndLatestPage"] },
+    visualEffectInBackground: { type: "string", values: ["none", "hidden"] },
+    handleWebviewPreload: { type: "string", values: ["static", "manual", "auto"] },
+    style: { type: "string", values: ["v2"] },
+    singlePage: { type: "object" },
+    renderer: { type: "string", values: ["webview", "skyline"] },
+    rendererOptions: { type: "object" },
+};
+
+// 自定义组件名：小写字母开头，只包含小写字母、数字、下划线和连字符
+const COMPONENT_NAME = /^[a-z][a-z0-9_-]*$/;
+
+// 静态求值失败的标记
+const NON_STATIC = Symbol("non-static");
+
+/**
+ * 解析并校验页面/组件的 JSON 配置
+ * @param jsonContent - 配置块内容
+ * @param options - 配置格式、位置映射和诊断语言
+ * @returns 规范化后的配置、字段位置和诊断信息
+ */
+export function mpxJsonParser(jsonContent: string, options: MpxJsonParserOptions = {}): MpxJsonParseResult {
+    const parser = new MpxJsonConfigParser(jsonContent, options);
+    return parser.parse();
+}
+
+/**
+ * 解析 .mpx 文件中的 JSON 配置块
+ * @param block - parseMpxFile 得到的 json 块
+ * @param source - 完整的 .mpx 文件内容
+ * @param locale - 诊断语言
+ * @returns 解析结果，诊断位置指向 .mpx 文件
+ */
+export function parseMpxJsonBlock(block: MpxSFCBlock, source: string, locale?: DiagnosticLocale): MpxJsonParseResult {
+    return mpxJsonParser(block.content, {
+        lang: block.attrs.type === "application/json" ? "json" : "js",
+        source,
+        offset: block.loc.start,
+        locale,
+    });
+}
+
+class MpxJsonConfigParser {
+    private content: string;
+    private source: string;
+    private offset: number;
+    private lang: "json" | "js";
+    private locale?: DiagnosticLocale;
+    private config: MpxJsonConfig = {};
+    private locations: Record<string, DiagnosticRange> = {};
+    private errors: Diagnostic[] = [];
+    private warnings: Diagnostic[] = [];
+
+    constructor(content: string, options: MpxJsonParserOptions) {
+        this.content = content;
+        this.source = options.source ?? content;
+        this.offset = options.source !== undefined ? options.offset || 0 : 0;
+        this.lang = options.lang || "json";
+        this.locale = options.locale;
+    }
+
+    parse(): MpxJsonParseResult {
+        const root = this.lang === "json" ? this.parseJson() : this.parseJs();
+        if (root) {
+            this.validateRoot(root);
+        }
+
+        return {
+            config: this.config,
+            locations: this.locations,
+            errors: this.errors,
+            warnings: this.warnings,
+        };
+    }
+
+    // 解析 JSON 格式的配置，先用 JSON.parse 保证语法严格，再用 Babel 获取字段位置
+    private parseJson(): t.ObjectExpression | null {
+        if (!this.content.trim()) {
+            return null;
+        }
+
+        try {
+            JSON.parse(this.content);
+        } catch (error) {
+            // 不同 Node 版本的错误信息不一定包含出错位置，位置由 JsonSyntaxChecker 计算
+            const message = error instanceof Error ? error.message : String(error);
+            const start = this.offset + Math.max(new JsonSyntaxChecker(this.content).check(), 0);
+            this.addError("invalid-json", { start, end: start }, { args: { error: message } });
+            return null;
+        }
+
+        const expression = parseExpression(this.content, { startIndex: this.offset });
+        if (!t.isObjectExpression(expression)) {
+            this.addError("json-type-mismatch", this.rangeOf(expression), { args: { field: "json", expected: "object" } });
+            return null;
+        }
+        return expression;
+    }
+
+    // 解析 JS 格式的配置：module.exports = {...} 或 export default {...}
+    private parseJs(): t.ObjectExpression | null {
+        let program: t.Program;
+        try {
+            program = parse(this.content, { sourceType: "module", startIndex: this.offset }).program;
+        } catch (error) {
+            // Babel 的语法错误带有出错位置 loc
+            const loc = error instanceof SyntaxError ? (error as SyntaxError & { loc?: { index: number } }).loc : undefined;
+            const start = loc ? loc.index : this.offset;
+            const message = error instanceof Error ? error.message : String(error);
+            this.addError("invalid-json", { start, end: start }, { args: { error: message } });
+            return null;
+        }
+
+        for (const statement of program.body) {
+            if (t.isExportDefaultDeclaration(statement) && t.isObjectExpression(statement.declaration)) {
+                return statement.declaration;
+            }
+            if (
+                t.isExpressionStatement(statement) &&
+                t.isAssignmentExpression(statement.expression) &&
+                t.isMemberExpression(statement.expression.left) &&
+                t.isIdentifier(statement.expression.left.object, { name: "module" }) &&
+                t.isIdentifier(statement.expression.left.property, { name: "exports" }) &&
+                t.isObjectExpression(statement.expression.right)
+            ) {
+                return statement.expression.right;
+            }
+        }
+
+        const end = this.offset + this.content.length;
+        this.addError("json-missing-export", { start: this.offset, end });
+        return null;
+    }
+
+    // 校验顶层字段
+    private validateRoot(root: t.ObjectExpression): void {
+        for (const { key, property } of this.getProperties(root)) {
+            this.locations[key] = this.rangeOf(property);
+            const rule = configSchema[key];
+            if (rule && rule.type === "componentMap") {
+                this.validateComponentMap(key, property.value);
+                continue;
+            }
+            if (rule && rule.type === "genericMap") {
+                this.validateGenericMap(key, property.value);
+                continue;
+            }
+
+            const value = this.evaluate(property.value);
+            if (value === NON_STATIC) {
+                continue;
+            }
+
+            if (!rule) {
+                this.addInfo("json-unknown-field", this.rangeOf(property.key), { args: { field: key } });
+                this.config[key] = value;
+                continue;
+            }
+
+            if (this.checkType(key, rule.type, value, property.value)) {
+                if (rule.values && !rule.values.includes(value as string)) {
+                    this.addError("json-invalid-value", this.rangeOf(property.value), {
+                        args: { field: key, values: rule.values.join(" | ") },
+                    });
+                    continue;
+                }
+                this.config[key] = value;
+            }
+        }
+    }
+
+    // 校验 usingComponents：组件名 -> 组件路径
+    private validateComponentMap(field: string, node: t.Node): void {
+        if (!t.isObjectExpression(node)) {
+            this.addError("json-type-mismatch", this.rangeOf(node), { args: { field, expected: "object" } });
+            return;
+        }
+
+        const components: Record<string, string> = {};
+        for (const { key, property } of this.getProperties(node)) {
+            const path = `${field}.${key}`;
+            this.locations[path] = this.rangeOf(property);
+            if (!COMPONENT_NAME.test(key)) {
+                this.addWarning("json-invalid-component-name", this.rangeOf(property.key), { args: { name: key } });
+            }
+
+            const value = this.evaluate(property.value);
+            if (value !== NON_STATIC && this.checkType(path, "string", value, property.value)) {
+                components[key] = value as string;
+            }
+        }
+        this.config[field] = components;
+    }
+
+    // 校验 componentGenerics：抽象节点名 -> true 或 { default: 组件路径 }
+    private validateGenericMap(field: string, node: t.Node): void {
+        if (!t.isObjectExpression(node)) {
+            this.addError("json-type-mismatch", this.rangeOf(node), { args: { field, expected: "object" } });
+            return;
+        }
+
+        const generics: Record<string, ComponentGeneric> = {};
+        for (const { key, property } of this.getProperties(node)) {
+            const path = `${field}.${key}`;
+            this.locations[path] = this.rangeOf(property);
+            const value = this.evaluate(property.value);
+            if (value === NON_STATIC) {
+                continue;
+            }
+
+            const isDefaultObject =
+                isPlainObject(value) && Object.keys(value).every((name) => name === "default" && typeof value[name] === "string");
+            if (typeof value === "boolean" || isDefaultObject) {
+                generics[key] = value as ComponentGeneric;
+            } else {
+                this.addError("json-type-mismatch", this.rangeOf(property.value), {
+                    args: { field: path, expected: 'boolean | { "default": string }' },
+                });
+            }
+        }
+        this.config[field] = generics;
+    }
+
+    // 检查值类型，不匹配时报告错误
+    private checkType(field: string, expected: string, value: unknown, node: t.Node): boolean {
+        const actual = isPlainObject(value) ? "object" : Array.isArray(value) ? "array" : value === null ? "null" : typeof value;
+        if (actual === expected) {
+            return true;
+        }
+        this.addError("json-type-mismatch", this.rangeOf(node), { args: { field, expected } });
+        return false;
+    }
+
+    // 获取对象的静态属性列表，计算属性、展开运算符和方法会被报告并跳过
+    private getProperties(node: t.ObjectExpression): Array<{ key: string; property: t.ObjectProperty }> {
+        const properties: Array<{ key: string; property: t.ObjectProperty }> = [];
+        for (const property of node.properties) {
+            if (t.isObjectProperty(property) && !property.computed) {
+                const key = t.isIdentifier(property.key)
+                    ? property.key.name
+                    : t.isStringLiteral(property.key) || t.isNumericLiteral(property.key)
+                      ? String(property.key.value)
+                      : null;
+                if (key !== null) {
+                    properties.push({ key, property });
+                    continue;
+                }
+            }
+            this.addWarning("json-non-static-value", this.rangeOf(property));
+        }
+        return properties;
+    }
+
+    // 对字面量表达式静态求值，无法求值时报告警告
+    private evaluate(node: t.Node): unknown {
+        if (t.isStringLiteral(node) || t.isNumericLiteral(node) || t.isBooleanLiteral(node)) {
+            return node.value;
+        }
+        if (t.isNullLiteral(node)) {
+            return null;
+        }
+        if (t.isTemplateLiteral(node) && node.expressions.length === 0) {
+            return node.quasis.map((quasi) => quasi.value.cooked ?? quasi.value.raw).join("");
+        }
+        if (t.isUnaryExpression(node, { operator: "-" }) && t.isNumericLiteral(node.argument)) {
+            return -node.argument.value;
+        }
+        if (t.isArrayExpression(node)) {
+            const items = node.elements.map((element) => (element && !t.isSpreadElement(element) ? this.evaluate(element) : NON_STATIC));
+            return items.includes(NON_STATIC) ? NON_STATIC : items;
+        }
+        if (t.isObjectExpression(node)) {
+            const result: Record<string, unknown> = {};
+            const properties = this.getProperties(node);
+            if (properties.length !== node.properties.length) {
+                return NON_STATIC;
+            }
+            for (const { key, property } of properties) {
+                const value = this.evaluate(property.value);
+                if (value === NON_STATIC) {
+                    return NON_STATIC;
+                }
+                result[key] = value;
+            }
+            return result;
+        }
+
+        this.addWarning("json-non-static-value", this.rangeOf(node));
+        return NON_STATIC;
+    }
+
+    private rangeOf(node: t.Node): DiagnosticRange {
+        return { start: node.start ?? this.offset, end: node.end ?? this.offset };
+    }
+
+    private addError(code: DiagnosticCode, range: DiagnosticRange, options: DiagnosticOptions = {}): void {
+        this.errors.push(createDiagnostic(this.source, code, "error", range, { ...options, locale: this.locale }));
+    }
+
+    private addWarning(code: DiagnosticCode, range: DiagnosticRange, options: DiagnosticOptions = {}): void {
+        this.warnings.push(createDiagnostic(this.source, code, "warning", range, { ...options, locale: this.locale }));
+    }
+
+    // info 级别的提示与警告放在一起
+    private addInfo(code: DiagnosticCode, range: DiagnosticRange, options: DiagnosticOptions = {}): void {
+        this.warnings.push(createDiagnostic(this.source, code, "info", range, { ...options, locale: this.locale }));
+    }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// JSON 的字符串和字面量
+const JSON_STRING = /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y;
+const JSON_LITERAL = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null/y;
+
+// 按 JSON 语法扫描内容，定位第一个不合法的字符
+class JsonSyntaxChecker {
+    private content: string;
+    private index = 0;
+
+    constructor(content: string) {
+        this.content = content;
+    }
+
+    /**
+     * 检查 JSON 语法
+     * @returns 第一个不合法字符的位置，没有错误时返回 -1
+     */
+    check(): number {
+        if (!this.value()) {
+            return this.index;
+        }
+        this.skipWhitespace();
+        return this.index < this.content.length ? this.index : -1;
+    }
+
+    // 扫描一个值，失败时 index 停在出错位置
+    private value(): boolean {
+        this.skipWhitespace();
+        const char = this.content[this.index];
+        if (char === "{") {
+            return this.list("}", () => this.match(JSON_STRING) && this.expect(":") && this.value());
+        }
+        if (char === "[") {
+            return this.list("]", () => this.value());
+        }
+        return this.match(char === '"' ? JSON_STRING : JSON_LITERAL);
+    }
+
+    // 扫描逗号分隔的对象成员或数组元素，不允许尾随逗号
+    private list(close: string, item: () => boolean): boolean {
+        this.index++;
+        this.skipWhitespace();
+        if (this.content[this.index] === close) {
+            this.index++;
+            return true;
+        }
+        for (;;) {
+            this.skipWhitespace();
+            if (!item()) {
+                return false;
+            }
+            this.skipWhitespace();
+            if (this.content[this.index] !== ",") {
+                return this.expect(close);
+            }
+            this.index++;
+        }
+    }
+
+    private match(pattern: RegExp): boolean {
+        pattern.lastIndex = this.index;
+        if (!pattern.test(this.content)) {
+            return false;
+        }
+        this.index = pattern.lastIndex;
+        return true;
+    }
+
+    private expect(char: string): boolean {
+        this.skipWhitespace();
+        if (this.content[this.index] !== char) {
+            return false;
+        }
+        this.index++;
+        return true;
+    }
+
+    private skipWhitespace(): void {
+        while (this.index < this.content.length && /[ \t\n\r]/.test(this.content[this.index])) {
+            this.index++;
+        }
+    }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { parseMpxStyle } from "./mpxStyleParser";
+
+describe("parseMpxStyle", () => {
+    it("css：rpx 换算、page 和小程序标签选择器映射", () => {
+        const result = parseMpxStyle(`page { padding: 20rpx; }\nview > text, .a image { width: 750rpx; }`);
+        expect(result.code).toBe(`body { padding: 2.66667vw; }\ndiv > span, .a img { width: 100vw; }`);
+        expect(result.warnings).toEqual([]);
+    });
+
+    it("rpx 换算为 px，字符串和注释中的 rpx 不转换", () => {
+        const result = parseMpxStyle(`.a { width: 750rpx; content: "10rpx"; /* 20rpx */ }`, { unit: "px" });
+        expect(result.code).toBe(`.a { width: 375px; content: "10rpx"; /* 20rpx */ }`);
+    });
+
+    it("stylus：按缩进识别选择器，声明、@keyframes 的关键帧和函数定义不转换", () => {
+        const stylus = `page
+  background red
+view,
+text
+  padding 10rpx
+  image
+    width 100rpx
+@keyframes fade
+  from
+    opacity 0
+size(n)
+  width n`;
+        const result = parseMpxStyle(stylus, { lang: "stylus" });
+        expect(result.code).toBe(`body
+  background red
+div,
+span
+  padding 1.33333vw
+  img
+    width 13.33333vw
+@keyframes fade
+  from
+    opacity 0
+size(n)
+  width n`);
+        expect(result.warnings).toEqual([]);
+    });
+
+    it("sass：选择器映射，mixin 和嵌套属性不转换，:host 报告警告", () => {
+        const sass = `=box($a)
+  color: $a
+view
+  +box(1)
+  font:
+    family: x
+:host
+  display: block`;
+        const result = parseMpxStyle(sass, { lang: "sass" });
+        expect(result.code).toBe(sass.replace("view", "div"));
+        expect(result.warnings.map((warning) => [warning.code, warning.line])).toEqual([["style-unsupported-selector", 7]]);
+    });
+
+    it("stylus / sass：选择器和注释中的 rpx 不转换", () => {
+        const stylus = `// 20rpx 的间距
+.mt-20rpx
+  margin-top 20rpx // 20rpx
+  /* 10rpx */
+.pd-10rpx { padding: 10rpx }
+@media (min-width: 750rpx)
+  .a
+    width 750rpx`;
+        expect(parseMpxStyle(stylus, { lang: "stylus" }).code).toBe(`// 20rpx 的间距
+.mt-20rpx
+  margin-top 2.66667vw // 20rpx
+  /* 10rpx */
+.pd-10rpx { padding: 1.33333vw }
+@media (min-width: 100vw)
+  .a
+    width 100vw`);
+        const sass = `.w-750rpx
+  width: 750rpx`;
+        expect(parseMpxStyle(sass, { lang: "sass", unit: "px" }).code).toBe(`.w-750rpx
+  width: 375px`);
+    });
+
+    it("花括号不匹配时报告错误，位置换算到 .mpx 文件", () => {
+        const source = `<style>\n.a { color: red;\n</style>`;
+        const result = parseMpxStyle(".a { color: red;\n", { source, offset: 8 });
+        expect(result.errors.map((error) => [error.code, error.line])).toEqual([["unbalanced-style-brace", 3]]);
+    });
+});
@@ -1,3 +1,363 @@
-export function parseMpxStyle(styleContent: string) {
-    return styleContent;
-}
\ No newline at end of file
+import { defaultTagMapping } from "./mpxTemplateParser/mappingProfiles";
+import { DiagnosticOptions, DiagnosticRange, createDiagnostic } from "./mpxTemplateParser/diagnostics";
+import { Diagnostic, DiagnosticCode, DiagnosticLocale } from "./mpxTemplateParser/types";
+
+export type StyleTarget = "web" | "wx" | "ali" | "swan" | "tt" | "qq";
+
+export interface MpxStyleOptions {
+    lang?: string; // css、less、scss、stylus、sass，默认 css
+    target?: StyleTarget; // 输出平台，小程序平台原生支持 rpx 和组件标签选择器，只做检查
+    unit?: "px" | "vw"; // rpx 转换后的单位，默认 vw
+    designWidth?: number; // 设计稿宽度，默认 750（750rpx 等于屏幕宽度）
+    viewportWidth?: number; // 转换为 px 时的屏幕宽度，默认 375
+    pageSelector?: string; // page 选择器转换后的选择器，默认 body
+    tagMapping?: Record<string, string>; // 标签选择器映射，默认与模板转换一致
+    source?: string; // 完整的 .mpx 文件内容，用于把诊断位置映射回 .mpx 文件
+    offset?: number; // 样式内容在 source 中的偏移量
+    locale?: DiagnosticLocale;
+}
+
+export interface MpxStyleResult {
+    code: string;
+    errors: Diagnostic[];
+    warnings: Diagnostic[];
+}
+
+interface StyleEdit {
+    start: number;
+    end: number;
+    replacement: string;
+}
+
+// 使用缩进语法的预处理语言，按缩进而不是花括号识别规则
+const INDENTED_LANGS = ["stylus", "styl", "sass"];
+
+// 缩进语法中开始一个块、但不是选择器的行：sass 的 =mixin / +include，stylus 的变量、函数定义和控制语句，sass 的嵌套属性
+const INDENTED_NON_SELECTOR = /^(?:[=+]|[\w$-]+\s*\??=|[\w$-]+\([^)]*\)\s*$|(?:if|else|unless|for|return)\b)|:$/;
+
+// 缩进语法中的一行，start / end 为去掉缩进和行尾空白后的范围
+interface IndentedLine {
+    start: number;
+    end: number;
+    indent: number;
+}
+
+// 字符串、url() 和注释中的 rpx 不转换
+const RPX_PATTERN = /"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|url\([^)]*\)|\/\*[\s\S]*?\*\/|(-?\d*\.?\d+)rpx\b/gi;
+
+/**
+ * 转换 MPX 样式：rpx 单位换算、小程序标签选择器映射，并报告 Web 不支持的写法
+ * @param styleContent - 样式内容
+ * @param options - 转换选项
+ * @returns 转换后的样式和诊断信息
+ */
+export function parseMpxStyle(styleContent: string, options: MpxStyleOptions = {}): MpxStyleResult {
+    const transformer = new MpxStyleTransformer(styleContent, options);
+    return transformer.transform();
+}
+
+class MpxStyleTransformer {
+    private content: string;
+    private options: MpxStyleOptions;
+    private source: string;
+    private offset: number;
+    private edits: StyleEdit[] = [];
+    private errors: Diagnostic[] = [];
+    private warnings: Diagnostic[] = [];
+
+    constructor(content: string, options: MpxStyleOptions) {
+        this.content = content;
+        this.options = options;
+        this.source = options.source ?? content;
+        this.offset = options.source !== undefined ? options.offset || 0 : 0;
+    }
+
+    transform(): MpxStyleResult {
+        const isWeb = (this.options.target || "web") === "web";
+        const lang = this.options.lang || "css";
+
+        if (INDENTED_LANGS.includes(lang)) {
+            this.scanIndented(isWeb);
+        } else {
+            this.scan(isWeb);
+        }
+
+        return {
+            code: this.applyEdits(),
+            errors: this.errors,
+            warnings: this.warnings,
+        };
+    }
+
+    // 按花括号扫描规则、at-rule 和声明
+    private scan(isWeb: boolean): void {
+        const content = this.content;
+        const lineComments = this.options.lang === "scss" || this.options.lang === "less";
+        const contexts: Array<"rule" | "keyframes" | "at-rule"> = [];
+        let statementStart = 0;
+        let index = 0;
+
+        while (index < content.length) {
+            const char = content[index];
+
+            if (char === "/" && content[index + 1] === "*") {
+                const end = content.indexOf("*/", index + 2);
+                index = end < 0 ? content.length : end + 2;
+                continue;
+            }
+            if (lineComments && char === "/" && content[index + 1] === "/" && content[index - 1] !== ":") {
+                const end = content.indexOf("\n", index);
+                index = end < 0 ? content.length : end;
+                continue;
+            }
+            if (char === '"' || char === "'") {
+                index = this.skipString(index);
+                continue;
+            }
+            // scss 的 #{} 和 less 的 @{} 插值
+            if ((char === "#" || char === "@") && content[index + 1] === "{") {
+                const end = content.indexOf("}", index);
+                index = end < 0 ? content.length : end + 1;
+                continue;
+            }
+
+            if (char === "{") {
+                const prelude = this.trimRange(statementStart, index);
+                const text = content.slice(prelude.start, prelude.end);
+                if (text.startsWith("@")) {
+                    contexts.push(/^@(-\w+-)?keyframes\b/.test(text) ? "keyframes" : "at-rule");
+                    if (isWeb) this.convertRpx(prelude.start, prelude.end);
+                } else {
+                    if (contexts[contexts.length - 1] !== "keyframes") {
+                        this.checkSelector(prelude.start, prelude.end);
+                        if (isWeb) this.mapSelector(prelude.start, prelude.end);
+                    }
+                    contexts.push("rule");
+                }
+                statementStart = index + 1;
+            } else if (char === ";" || char === "}") {
+                this.handleStatement(statementStart, index, isWeb);
+                if (char === "}") {
+                    if (contexts.length === 0) {
+                        this.addError("unbalanced-style-brace", { start: this.offset + index, end: this.offset + index + 1 });
+                    }
+                    contexts.pop();
+                }
+                statementStart = index + 1;
+            }
+
+            index++;
+        }
+
+        this.handleStatement(statementStart, content.length, isWeb);
+        if (contexts.length > 0) {
+            const end = this.offset + content.length;
+            this.addError("unbalanced-style-brace", { start: end, end });
+        }
+    }
+
+    // 按缩进扫描 stylus / sass：下一行缩进更深、以逗号结尾或带 "{" 的行是选择器，其余为声明
+    // 行的范围不包含行尾的 "//" 注释，rpx 只在声明和选择器 "{" 之后的部分中换算
+    private scanIndented(isWeb: boolean): void {
+        const lines = this.getIndentedLines();
+        let keyframesIndent = -1;
+
+        lines.forEach((line, index) => {
+            const text = this.content.slice(line.start, line.end);
+            const next = lines[index + 1];
+            if (keyframesIndent >= 0 && line.indent <= keyframesIndent) {
+                keyframesIndent = -1;
+            }
+
+            if (text.startsWith("@")) {
+                if (/^@(-\w+-)?keyframes\b/.test(text)) {
+                    keyframesIndent = line.indent;
+                }
+                this.handleStatement(line.start, line.end, isWeb);
+                return;
+            }
+
+            const brace = text.indexOf("{");
+            const opensBlock = brace >= 0 || text.endsWith(",") || (!!next && next.indent > line.indent);
+            if (!opensBlock || keyframesIndent >= 0 || INDENTED_NON_SELECTOR.test(text)) {
+                if (isWeb) this.convertRpx(line.start, line.end);
+                return;
+            }
+            const selector = this.trimRange(line.start, brace >= 0 ? line.start + brace : line.end);
+            this.checkSelector(selector.start, selector.end);
+            if (isWeb) this.mapSelector(selector.start, selector.end);
+            if (isWeb && brace >= 0) this.convertRpx(line.start + brace, line.end);
+        });
+    }
+
+    // 拆分缩进语法的行，跳过空行和注释
+    private getIndentedLines(): IndentedLine[] {
+        const content = this.content;
+        const lines: IndentedLine[] = [];
+        let index = 0;
+
+        while (index < content.length) {
+            // 行首缩进
+            let start = index;
+            while (start < content.length && (content[start] === " " || content[start] === "\t")) start++;
+
+            // 行尾，跳过字符串和块注释，"//" 之后为行注释
+            let end = start;
+            let codeEnd = start;
+            while (end < content.length && content[end] !== "\n") {
+                const char = content[end];
+                if (char === "/" && content[end + 1] === "*") {
+                    const close = content.indexOf("*/", end + 2);
+                    end = close < 0 ? content.length : close + 2;
+                    continue;
+                }
+                if (char === "/" && content[end + 1] === "/" && content[end - 1] !== ":") {
+                    while (end < content.length && content[end] !== "\n") end++;
+                    break;
+                }
+                if (char === '"' || char === "'") {
+                    end = this.skipString(end);
+                    codeEnd = end;
+                    continue;
+                }
+                end++;
+                if (!/\s/.test(char)) codeEnd = end;
+            }
+
+            if (codeEnd > start) {
+                lines.push({ start, end: codeEnd, indent: start - index });
+            }
+            index = end + 1;
+        }
+
+        return lines;
+    }
+
+    // 处理声明或没有块的 at-rule（如 @import）
+    private handleStatement(start: number, end: number, isWeb: boolean): void {
+        const range = this.trimRange(start, end);
+        const text = this.content.slice(range.start, range.end);
+        if (!text) return;
+
+        if (/^@import\b/.test(text) && /\.(wxss|acss|ttss|qss|css\.swan)\b/.test(text)) {
+            this.addWarning("style-platform-import", this.toSourceRange(range), { args: { statement: text } });
+        }
+        if (isWeb) {
+            this.convertRpx(range.start, range.end);
+        }
+    }
+
+    // 检查 Web 不支持的选择器
+    private checkSelector(start: number, end: number): void {
+        const selector = this.content.slice(start, end);
+        const match = selector.match(/:host\b/);
+        if (match && (this.options.target || "web") === "web") {
+            const offset = start + match.index!;
+            this.addWarning("style-unsupported-selector", this.toSourceRange({ start: offset, end: offset + match[0].length }), {
+                args: { selector: match[0] },
+            });
+        }
+    }
+
+    // 将选择器中的小程序标签替换为 Web 标签
+    private mapSelector(start: number, end: number): void {
+        const mapping = this.options.tagMapping || defaultTagMapping;
+        const content = this.content;
+        let index = start;
+
+        while (index < end) {
+            const char = content[index];
+
+            if (char === "[") {
+                const close = content.indexOf("]", index);
+                index = close < 0 || close > end ? end : close + 1;
+                continue;
+            }
+            if (char === '"' || char === "'") {
+                index = this.skipString(index);
+                continue;
+            }
+
+            const previous = index === start ? " " : content[index - 1];
+            const match = /^[a-zA-Z][\w-]*/.exec(content.slice(index, end));
+            if (match && /[\s>+~,(]/.test(previous)) {
+                const tag = match[0].replace(/^wx-/, "");
+                const replacement = tag === "page" ? this.options.pageSelector || "body" : mapping[tag];
+                if (replacement && replacement !== match[0]) {
+                    this.edits.push({ start: index, end: index + match[0].length, replacement });
+                }
+                index += match[0].length;
+                continue;
+            }
+            index += match ? match[0].length : 1;
+        }
+    }
+
+    // 将 rpx 换算为 px 或 vw
+    private convertRpx(start: number, end: number): void {
+        const designWidth = this.options.designWidth || 750;
+        const unit = this.options.unit || "vw";
+        const viewportWidth = this.options.viewportWidth || 375;
+        const text = this.content.slice(start, end);
+        let match: RegExpExecArray | null;
+
+        RPX_PATTERN.lastIndex = 0;
+        while ((match = RPX_PATTERN.exec(text))) {
+            if (match[1] === undefined) continue;
+            const value = Number(match[1]);
+            const converted = unit === "vw" ? (value / designWidth) * 100 : (value * viewportWidth) / designWidth;
+            this.edits.push({
+                start: start + match.index,
+                end: start + match.index + match[0].length,
+                replacement: `${formatNumber(converted)}${unit}`,
+            });
+        }
+    }
+
+    // 跳过字符串，返回结束引号之后的位置
+    private skipString(index: number): number {
+        const quote = this.content[index];
+        let i = index + 1;
+        while (i < this.content.length && this.content[i] !== quote) {
+            i += this.content[i] === "\\" ? 2 : 1;
+        }
+        return i + 1;
+    }
+
+    // 去掉范围两端的空白
+    private trimRange(start: number, end: number): DiagnosticRange {
+        while (start < end && /\s/.test(this.content[start])) start++;
+        while (end > start && /\s/.test(this.content[end - 1])) end--;
+        return { start, end };
+    }
+
+    private toSourceRange(range: DiagnosticRange): DiagnosticRange {
+        return { start: this.offset + range.start, end: this.offset + range.end };
+    }
+
+    // 按位置应用所有修改
+    private applyEdits(): string {
+        const edits = [...this.edits].sort((a, b) => a.start - b.start);
+        let code = "";
+        let last = 0;
+        for (const edit of edits) {
+            if (edit.start < last) continue;
+            code += this.content.slice(last, edit.start) + edit.replacement;
+            last = edit.end;
+        }
+        return code + this.content.slice(last);
+    }
+
+    private addError(code: DiagnosticCode, range: DiagnosticRange, options: DiagnosticOptions = {}): void {
+        this.errors.push(createDiagnostic(this.source, code, "error", range, { ...options, locale: this.options.locale }));
+    }
+
+    private addWarning(code: DiagnosticCode, range: DiagnosticRange, options: DiagnosticOptions = {}): void {
+        this.warnings.push(createDiagnostic(this.source, code, "warning", range, { ...options, locale: this.options.locale }));
+    }
+}
+
+// 最多保留 5 位小数
+function formatNumber(value: number): string {
+    return String(Number(value.toFixed(5)));
+}
@@ -1,33 +1,32 @@
-import { ASTNode } from "./types";
+import { ASTNode, Attribute, ExpressionNode } from "./types";
+
+// 遍历器访问者
+export interface ASTVisitor {
+    enter?: (node: ASTNode, parent?: ASTNode) => void;
+    exit?: (node: ASTNode, parent?: ASTNode) => void;
+    // 访问文本节点和属性值上的表达式节点，attribute 为空表示文本插值
+    expression?: (expression: ExpressionNode, node: ASTNode, attribute?: Attribute) => void;
+}
 
 // 遍历器
 export class ASTTraverser {
     // 遍历 AST
-    traverse(
-        ast: ASTNode[],
-        visitor: {
-            enter?: (node: ASTNode, parent?: ASTNode) => void;
-            exit?: (node: ASTNode, parent?: ASTNode) => void;
-        }
-    ): void {
+    traverse(ast: ASTNode[], visitor: ASTVisitor): void {
         for (const node of ast) {
             this.traverseNode(node, visitor);
         }
     }
 
     // 遍历单个节点
-    private traverseNode(
-        node: ASTNode,
-        visitor: {
-            enter?: (node: ASTNode, parent?: ASTNode) => void;
-            exit?: (node: ASTNode, parent?: ASTNode) => void;
-        },
-        parent?: ASTNode
-    ): void {
+    private traverseNode(node: ASTNode, visitor: ASTVisitor, parent?: ASTNode): void {
         if (visitor.enter) {
             visitor.enter(node, parent);
         }
 
+        if (visitor.expression) {
+            this.traverseExpressions(node, visitor.expression);
+        }
+
         if (node.children) {
             for (const child of node.children) {
                 this.traverseNode(child, visitor, node);
@@ -38,4 +37,18 @@ export class ASTTraverser {
             visitor.exit(node, parent);
         }
     }
-}
\ No newline at end of file
+
+    // 遍历节点上的表达式
+    private traverseExpressions(node: ASTNode, callback: NonNullable<ASTVisitor["expression"]>): void {
+        if (node.expression) {
+            callback(node.expression, node);
+        }
+
+        const attributes: Attribute[] = node.attributes?.attributesAll || [];
+        for (const attr of attributes) {
+            if (attr.expression) {
+                callback(attr.expression, node, attr);
+            }
+        }
+    }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { astAddRefWithSourceMap, templateStringAddRef, templateStringAddRefWithSourceMap } from "./addRef";
+import { MpxTemplateParser } from "./mpxTemplateParser";
+import { printTemplate } from "./printer";
+
+describe("templateStringAddRef", () => {
+    it("按元素路径添加 wx:ref，其余内容与原模板一致", () => {
+        expect(templateStringAddRef(`<view class="a">\n  <text>{{ msg }}</text>\n  <image/>\n</view>`)).toBe(
+            `<view class="a" wx:ref="devtools_1_view">\n  <text wx:ref="devtools_1-1_text">{{ msg }}</text>\n  <image wx:ref="devtools_1-2_image"/>\n</view>`
+        );
+    });
+
+    it("保留已有的 wx:ref", () => {
+        expect(templateStringAddRef(`<view wx:ref="box"><text/></view>`)).toBe(`<view wx:ref="box"><text wx:ref="devtools_1-1_text"/></view>`);
+    });
+
+    it("<wxs> 不添加 ref，也不参与路径编号", () => {
+        expect(templateStringAddRef(`<view><wxs module="m">module.exports = {}</wxs><text/></view>`)).toBe(
+            `<view wx:ref="devtools_1_view"><wxs module="m">module.exports = {}</wxs><text wx:ref="devtools_1-1_text"/></view>`
+        );
+        expect(templateStringAddRef(`<wxs module="m">module.exports = {}</wxs>`)).toBe(`<wxs module="m">module.exports = {}</wxs>`);
+    });
+
+    it("生成指向原模板的 Source Map", () => {
+        const { code, map } = templateStringAddRefWithSourceMap(`<view/>`, { source: "a.mpx" });
+        expect(code).toBe(`<view wx:ref="devtools_1_view"/>`);
+        expect(map.sources).toEqual(["a.mpx"]);
+    });
+
+    it("复用已有的解析结果，不修改原 AST", () => {
+        const template = `<view>{{ msg }}</view>`;
+        const { ast } = new MpxTemplateParser(template).parse();
+        const { code } = astAddRefWithSourceMap(ast, { source: "a.mpx", offset: { line: 2, column: 11 } });
+        expect(code).toBe(`<view wx:ref="devtools_1_view">{{ msg }}</view>`);
+        expect(printTemplate(ast)).toBe(template);
+    });
+});
+
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { createDirective, getDirectiveKind, groupAttributes, isDirectiveName } from "./attributes";
+import { Attribute } from "./types";
+
+describe("attributes", () => {
+    it("识别指令名和指令类型", () => {
+        expect(isDirectiveName("wx:if")).toBe(true);
+        expect(isDirectiveName("bindtap")).toBe(true);
+        expect(isDirectiveName("binding")).toBe(false);
+        expect(getDirectiveKind("wx:for-items")).toBe("for");
+        expect(getDirectiveKind("catch:tap")).toBe("event");
+        expect(getDirectiveKind("wx:unknown")).toBe("unknown");
+        expect(createDirective("bind:tap.stop", "onTap")).toEqual({ name: "bind:tap", value: "onTap", kind: "event", modifiers: ["stop"] });
+    });
+
+    it("按普通属性和指令分组，跳过元素级条件编译标记", () => {
+        const attributes: Attribute[] = [
+            { name: "class", value: "a", isDirective: false },
+            { name: "wx:if", value: "{{ok}}", isDirective: true, directive: createDirective("wx:if", "{{ok}}") },
+            { name: "@wx|ali", value: "", isDirective: false, modes: ["wx", "ali"] },
+        ];
+        const grouped = groupAttributes(attributes);
+        expect(grouped.props).toEqual({ class: "a" });
+        expect(grouped.directives["wx:if"]).toEqual({ value: "{{ok}}", kind: "if", modifiers: [], expression: undefined });
+        expect(grouped.attributesAll).toBe(attributes);
+    });
+});
@@ -0,0 +1,118 @@
+import { parseEventBinding } from "./events";
+import { hasInterpolation, interpolationToExpression, toStringLiteral } from "./mustache";
+import { Attribute, Directive, DirectiveKind } from "./types";
+
+/**
+ * 检查属性名是否是指令
+ * @param name - 属性名
+ * @returns 是否是指令
+ */
+export function isDirectiveName(name: string): boolean {
+    return name.startsWith("wx:") || parseEventBinding(name) !== null;
+}
+
+// wx: 指令的类型
+const directiveKinds: Record<string, DirectiveKind> = {
+    "wx:if": "if",
+    "wx:elif": "elif",
+    "wx:else": "else",
+    "wx:for": "for",
+    "wx:for-items": "for",
+    "wx:for-item": "for-item",
+    "wx:for-index": "for-index",
+    "wx:key": "key",
+    "wx:show": "show",
+    "wx:ref": "ref",
+    "wx:bind": "bind",
+    "wx:mode": "mode",
+    "wx:class": "class",
+    "wx:style": "style",
+    "wx:model": "model",
+    "wx:model-prop": "model-option",
+    "wx:model-event": "model-option",
+    "wx:model-value-path": "model-option",
+    "wx:model-filter": "model-option",
+};
+
+/**
+ * 获取指令的类型
+ * @param name - 指令名（不含修饰符）
+ * @returns 指令类型，未知的 wx: 指令为 unknown
+ */
+export function getDirectiveKind(name: string): DirectiveKind {
+    return directiveKinds[name] || (parseEventBinding(name) ? "event" : "unknown");
+}
+
+/**
+ * 创建指令，属性名中 "." 之后的部分为修饰符
+ * @param name - 属性名
+ * @param value - 属性值
+ * @returns 指令
+ */
+export function createDirective(name: string, value: string): Directive {
+    const [directiveName, ...modifiers] = name.split(".");
+    return { name: directiveName, value, kind: getDirectiveKind(directiveName), modifiers };
+}
+
+/**
+ * 将属性按普通属性和指令分组
+ * 元素级条件编译标记（如 @wx）不属于任何一组
+ * @param attributes - 元素的所有属性
+ * @returns props、directives 和 attributesAll
+ */
+export function groupAttributes(attributes: Attribute[]): Record<string, any> {
+    const result: Record<string, any> = {};
+
+    for (const attr of attributes) {
+        if (isModeMarker(attr)) {
+            continue;
+        }
+        if (attr.isDirective && attr.directive) {
+            if (!result.directives) {
+                result.directives = {};
+            }
+            result.directives[attr.directive.name] = {
+                value: attr.directive.value,
+                kind: attr.directive.kind,
+                modifiers: attr.directive.modifiers || [],
+                expression: attr.directive.expression,
+            };
+        } else {
+            if (!result.props) {
+                result.props = {};
+            }
+            result.props[attr.name] = attr.value;
+        }
+    }
+    result.attributesAll = attributes; // 保存所有属性信息
+    return result;
+}
+
+/**
+ * 转换 wx:key 为列表项的 key 表达式
+ * *this 表示元素本身，属性名表示元素的属性，插值表达式原样使用
+ * @param key - wx:key 的值
+ * @param item - 元素别名
+ * @param index - 下标别名
+ * @returns key 表达式
+ */
+export function convertForKey(key: string, item: string, index: string): string {
+    if (key === "*this") {
+        return item;
+    }
+    if (hasInterpolation(key)) {
+        return interpolationToExpression(key);
+    }
+    if (key === index) {
+        return index;
+    }
+    if (/^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/.test(key)) {
+        return `${item}.${key}`;
+    }
+    return `${item}[${toStringLiteral(key)}]`;
+}
+
+// 元素级条件编译标记
+export function isModeMarker(attr: Attribute): boolean {
+    return !!attr.modes && attr.name.startsWith("@");
+}
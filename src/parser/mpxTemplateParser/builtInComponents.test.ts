@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { convertBuiltInComponent } from "./builtInComponents";
+
+describe("convertBuiltInComponent", () => {
+    describe("input", () => {
+        it("小程序的 type 转换为 Web 的 type 和 inputmode", () => {
+            expect(convertBuiltInComponent("input", { type: "digit" })?.attributes).toContainEqual({ name: "inputmode", value: "decimal", source: "type" });
+            expect(convertBuiltInComponent("input", { type: "idcard" })?.attributes).toContainEqual({ name: "type", value: "text", source: "type" });
+        });
+
+        it("不支持的静态 type 按 text 处理并报告", () => {
+            const result = convertBuiltInComponent("input", { type: "tel" });
+            expect(result?.attributes).toContainEqual({ name: "type", value: "text", source: "type" });
+            expect(result?.unsupported).toEqual(["type"]);
+        });
+
+        it("动态 type 原样绑定并报告", () => {
+            const result = convertBuiltInComponent("input", { type: "{{kind}}" });
+            expect(result?.attributes).toContainEqual({ name: ":type", value: "kind", source: "type" });
+            expect(result?.dynamic).toEqual(["type"]);
+        });
+
+        it("插值中嵌套花括号的 type 同样作为动态值", () => {
+            const result = convertBuiltInComponent("input", { type: "{{ {a: {b: 'number'}}.a.b }}" });
+            expect(result?.attributes).toContainEqual({ name: ":type", value: "{a: {b: 'number'}}.a.b", source: "type" });
+            expect(result?.dynamic).toEqual(["type"]);
+        });
+
+        it("动态值作为整体放入条件表达式", () => {
+            expect(convertBuiltInComponent("input", { maxlength: "{{ limit || 20 }}" })?.attributes).toContainEqual({
+                name: ":maxlength",
+                value: "(limit || 20) === -1 ? undefined : (limit || 20)",
+                source: "maxlength",
+            });
+            expect(convertBuiltInComponent("input", { password: "{{ a || b }}" })?.attributes).toContainEqual({
+                name: ":type",
+                value: "(a || b) ? 'password' : 'text'",
+                source: "password",
+            });
+            expect(convertBuiltInComponent("image", { "lazy-load": "{{ a && b }}" })?.attributes).toContainEqual({
+                name: ":loading",
+                value: "(a && b) ? 'lazy' : 'eager'",
+                source: "lazy-load",
+            });
+        });
+
+        it("maxlength 默认 140，-1 表示不限制；password 转换为 type", () => {
+            expect(convertBuiltInComponent("input", {})?.attributes).toContainEqual({ name: "maxlength", value: "140" });
+            const result = convertBuiltInComponent("input", { maxlength: "-1", password: "", "confirm-type": "search" });
+            expect(result?.attributes).toEqual([
+                { name: "type", value: "password", source: "password" },
+                { name: "enterkeyhint", value: "search", source: "confirm-type" },
+            ]);
+        });
+    });
+
+    it("image 的 mode 转换为 object-fit，lazy-load 转换为 loading", () => {
+        const result = convertBuiltInComponent("image", { mode: "aspectFit", "lazy-load": "" });
+        expect(result?.styles).toEqual(["object-fit: contain"]);
+        expect(result?.attributes).toEqual([{ name: "loading", value: "lazy", source: "lazy-load" }]);
+    });
+
+    it("scroll-view 的滚动方向转换为 overflow，动态值报告", () => {
+        const result = convertBuiltInComponent("scroll-view", { "scroll-y": "", "scroll-x": "{{x}}" });
+        expect(result?.styles).toEqual(["overflow-y: auto"]);
+        expect(result?.dynamic).toEqual(["scroll-x"]);
+    });
+
+    it("navigator 转换为 router-link 的 to 和 replace", () => {
+        expect(convertBuiltInComponent("navigator", { url: "/a", "open-type": "redirect" })?.attributes).toEqual([
+            { name: "to", value: "/a", source: "url" },
+            { name: "replace", value: "", source: "open-type" },
+        ]);
+    });
+
+    it("switch 转换为 checkbox，颜色转换为 accent-color", () => {
+        const result = convertBuiltInComponent("switch", { checked: "", color: "#f00" });
+        expect(result?.attributes).toEqual([
+            { name: "type", value: "checkbox" },
+            { name: "role", value: "switch" },
+        ]);
+        expect(result?.styles).toEqual(["accent-color: #f00"]);
+    });
+
+    it("没有 Web 实现的属性报告为不支持", () => {
+        expect(convertBuiltInComponent("button", { type: "primary", "open-type": "share" })?.unsupported).toEqual(["type", "open-type"]);
+        expect(convertBuiltInComponent("view", {})).toBeNull();
+    });
+});
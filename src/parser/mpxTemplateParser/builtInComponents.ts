@@ -0,0 +1,450 @@
+import { getMustacheExpression } from "./mustache";
+
+// 转换后的属性，name 以 ":" 开头时 value 为表达式
+export interface ComponentAttribute {
+    name: string;
+    value: string;
+    source?: string; // 对应的原属性名，用于 Source Map 和诊断信息
+}
+
+// 内置组件的转换结果
+export interface ComponentOutput {
+    attributes: ComponentAttribute[]; // 新增或改写后的属性
+    styles: string[]; // 需要合并到 style 中的 CSS 声明
+    consumed: Set<string>; // 已处理的原属性，不再按普通属性输出
+    unsupported: string[]; // 在 Web 上没有对应实现的属性
+    dynamic: string[]; // 值为动态表达式、无法静态转换的属性
+}
+
+// 小程序内置组件，以及模板语法中使用的标签
+export const builtInComponentNames = [
+    "view",
+    "scroll-view",
+    "swiper",
+    "swiper-item",
+    "movable-area",
+    "movable-view",
+    "cover-view",
+    "cover-image",
+    "match-media",
+    "page-container",
+    "root-portal",
+    "share-element",
+    "icon",
+    "text",
+    "rich-text",
+    "progress",
+    "button",
+    "checkbox",
+    "checkbox-group",
+    "editor",
+    "form",
+    "input",
+    "keyboard-accessory",
+    "label",
+    "picker",
+    "picker-view",
+    "picker-view-column",
+    "radio",
+    "radio-group",
+    "slider",
+    "switch",
+    "textarea",
+    "navigator",
+    "functional-page-navigator",
+    "image",
+    "video",
+    "audio",
+    "camera",
+    "live-player",
+    "live-pusher",
+    "voip-room",
+    "map",
+    "canvas",
+    "web-view",
+    "ad",
+    "ad-custom",
+    "official-account",
+    "open-data",
+    "page-meta",
+    "navigation-bar",
+    "block",
+    "template",
+    "slot",
+    "component",
+    "import",
+    "include",
+    "wxs",
+];
+
+type ComponentConverter = (context: ComponentContext) => void;
+
+// 转换过程中使用的辅助方法
+class ComponentContext {
+    readonly output: ComponentOutput = { attributes: [], styles: [], consumed: new Set(), unsupported: [], dynamic: [] };
+
+    constructor(private props: Record<string, string>) {}
+
+    has(name: string): boolean {
+        return name in this.props;
+    }
+
+    // 标记属性已处理，返回属性值
+    take(name: string): string | undefined {
+        if (!this.has(name)) return undefined;
+        this.output.consumed.add(name);
+        return this.props[name];
+    }
+
+    /**
+     * 读取布尔属性
+     * 静态值与小程序一致：只要写了属性就为 true（包括 "false"），{{false}} 为 false
+     * @param name - 属性名
+     * @returns 布尔值，属性不存在时为 undefined，值为动态表达式时返回表达式
+     */
+    flag(name: string): boolean | { expression: string } | undefined {
+        const value = this.take(name);
+        if (value === undefined) return undefined;
+        const expression = getMustacheExpression(value);
+        if (expression === null) return true;
+        if (expression === "true" || expression === "false") return expression === "true";
+        return { expression };
+    }
+
+    add(name: string, value: string, source?: string): void {
+        this.output.attributes.push({ name, value, source });
+    }
+
+    style(declaration: string): void {
+        this.output.styles.push(declaration);
+    }
+
+    // 属性在 Web 上没有对应实现，支持以 "*" 结尾的前缀匹配
+    unsupported(...names: string[]): void {
+        for (const name of Object.keys(this.props)) {
+            const matched = names.some((pattern) => (pattern.endsWith("*") ? name.startsWith(pattern.slice(0, -1)) : name === pattern));
+            if (matched && !this.output.consumed.has(name)) {
+                this.output.consumed.add(name);
+                this.output.unsupported.push(name);
+            }
+        }
+    }
+
+    // 已读取的属性，取值在 Web 上没有对应实现
+    unsupportedValue(name: string): void {
+        this.output.unsupported.push(name);
+    }
+
+    // 值为动态表达式、无法转换的属性
+    dynamic(name: string): void {
+        this.output.dynamic.push(name);
+    }
+
+    // 布尔属性为 true 时添加样式，动态值无法合并到静态 style 中
+    flagStyle(name: string, declarations: string[]): void {
+        const value = this.flag(name);
+        if (value === true) {
+            declarations.forEach((declaration) => this.style(declaration));
+        } else if (typeof value === "object") {
+            this.dynamic(name);
+        }
+    }
+}
+
+// image mode 对应的 CSS
+const imageModeStyles: Record<string, string[]> = {
+    scaleToFill: ["object-fit: fill"],
+    aspectFit: ["object-fit: contain"],
+    aspectFill: ["object-fit: cover"],
+    widthFix: ["height: auto"],
+    heightFix: ["width: auto"],
+    top: ["object-fit: none", "object-position: top"],
+    bottom: ["object-fit: none", "object-position: bottom"],
+    center: ["object-fit: none", "object-position: center"],
+    left: ["object-fit: none", "object-position: left"],
+    right: ["object-fit: none", "object-position: right"],
+    "top left": ["object-fit: none", "object-position: top left"],
+    "top right": ["object-fit: none", "object-position: top right"],
+    "bottom left": ["object-fit: none", "object-position: bottom left"],
+    "bottom right": ["object-fit: none", "object-position: bottom right"],
+};
+
+// input type 对应的 Web 属性
+const inputTypes: Record<string, Array<[string, string]>> = {
+    text: [["type", "text"]],
+    number: [["type", "number"]],
+    idcard: [["type", "text"]],
+    digit: [
+        ["type", "text"],
+        ["inputmode", "decimal"],
+    ],
+    "safe-password": [["type", "password"]],
+    nickname: [["type", "text"]],
+};
+
+// 小程序 input / textarea 的 maxlength 默认为 140，-1 表示不限制
+const DEFAULT_MAXLENGTH = "140";
+
+// 输入框的最大长度
+function convertMaxlength(context: ComponentContext): void {
+    const value = context.take("maxlength");
+    const expression = value === undefined ? null : getMustacheExpression(value);
+    if (value === undefined) {
+        context.add("maxlength", DEFAULT_MAXLENGTH);
+    } else if (expression === null) {
+        if (value.trim() !== "-1") context.add("maxlength", value, "maxlength");
+    } else if (expression !== "-1") {
+        // 动态值为 -1 时不限制
+        context.add(":maxlength", `(${expression}) === -1 ? undefined : (${expression})`, "maxlength");
+    }
+}
+
+// 自动聚焦
+function convertFocus(context: ComponentContext): void {
+    for (const name of ["focus", "auto-focus"]) {
+        const value = context.flag(name);
+        if (value === true) {
+            context.add("autofocus", "", name);
+        } else if (typeof value === "object") {
+            context.dynamic(name);
+        }
+    }
+}
+
+// 颜色属性转换为 accent-color
+function convertAccentColor(context: ComponentContext, ...names: string[]): void {
+    for (const name of names) {
+        const value = context.take(name);
+        if (value !== undefined && getMustacheExpression(value) === null) {
+            context.style(`accent-color: ${value}`);
+        } else if (value !== undefined) {
+            context.dynamic(name);
+        }
+    }
+}
+
+// 各内置组件的转换
+const componentConverters: Record<string, ComponentConverter> = {
+    image(context) {
+        const mode = context.take("mode");
+        if (mode !== undefined) {
+            const styles = imageModeStyles[mode.trim()];
+            if (styles) {
+                styles.forEach((declaration) => context.style(declaration));
+            } else {
+                context.dynamic("mode");
+            }
+        }
+
+        const lazy = context.flag("lazy-load");
+        if (lazy === true) {
+            context.add("loading", "lazy", "lazy-load");
+        } else if (typeof lazy === "object") {
+            context.add(":loading", `(${lazy.expression}) ? 'lazy' : 'eager'`, "lazy-load");
+        }
+        context.unsupported("webp", "show-menu-by-longpress", "fade-in");
+    },
+
+    input(context) {
+        const type = context.take("type");
+        const typeExpression = type === undefined ? null : getMustacheExpression(type);
+        let typeAttributes = typeExpression === null ? inputTypes[type?.trim() || "text"] : [[":type", typeExpression] as [string, string]];
+        if (typeExpression !== null) {
+            // 动态的类型原样绑定，小程序特有的类型在 Web 上按 text 处理
+            context.dynamic("type");
+        } else if (!typeAttributes) {
+            // 小程序不支持的类型按 text 处理
+            context.unsupportedValue("type");
+            typeAttributes = inputTypes.text;
+        }
+
+        // password 优先于 type
+        const password = context.flag("password");
+        if (password === true) {
+            context.add("type", "password", "password");
+        } else if (typeof password === "object") {
+            const fallback = typeAttributes && typeExpression === null ? typeAttributes[0][1] : "text";
+            context.add(":type", `(${password.expression}) ? 'password' : '${fallback}'`, "password");
+        } else if (typeAttributes) {
+            typeAttributes.forEach(([name, value]) => context.add(name, value, "type"));
+        }
+
+        const confirmType = context.take("confirm-type");
+        if (confirmType !== undefined) {
+            context.add("enterkeyhint", confirmType, "confirm-type");
+        }
+
+        convertMaxlength(context);
+        convertFocus(context);
+        context.unsupported(
+            "placeholder-style",
+            "placeholder-class",
+            "cursor-spacing",
+            "cursor",
+            "selection-start",
+            "selection-end",
+            "adjust-position",
+            "hold-keyboard",
+            "confirm-hold",
+            "always-embed",
+            "safe-password-*"
+        );
+    },
+
+    textarea(context) {
+        convertMaxlength(context);
+        convertFocus(context);
+        context.unsupported(
+            "auto-height",
+            "fixed",
+            "cursor-spacing",
+            "cursor",
+            "show-confirm-bar",
+            "selection-start",
+            "selection-end",
+            "adjust-position",
+            "hold-keyboard",
+            "disable-default-padding",
+            "confirm-type",
+            "confirm-hold",
+            "placeholder-style",
+            "placeholder-class"
+        );
+    },
+
+    checkbox(context) {
+        context.add("type", "checkbox");
+        convertAccentColor(context, "color");
+    },
+
+    radio(context) {
+        context.add("type", "radio");
+        convertAccentColor(context, "color");
+    },
+
+    switch(context) {
+        // switch 的 type 只影响外观（switch / checkbox）
+        context.take("type");
+        context.add("type", "checkbox");
+        context.add("role", "switch");
+        convertAccentColor(context, "color");
+    },
+
+    slider(context) {
+        context.add("type", "range");
+        convertAccentColor(context, "active-color", "activeColor");
+        context.unsupported("show-value", "block-size", "block-color", "background-color", "backgroundColor", "selected-color");
+    },
+
+    "scroll-view"(context) {
+        context.flagStyle("scroll-x", ["overflow-x: auto"]);
+        context.flagStyle("scroll-y", ["overflow-y: auto"]);
+        context.flagStyle("enable-flex", ["display: flex"]);
+        context.unsupported(
+            "scroll-top",
+            "scroll-left",
+            "scroll-into-view",
+            "scroll-with-animation",
+            "enable-back-to-top",
+            "upper-threshold",
+            "lower-threshold",
+            "refresher-*",
+            "enhanced",
+            "bounces",
+            "show-scrollbar",
+            "paging-enabled",
+            "fast-deceleration"
+        );
+    },
+
+    swiper(context) {
+        // 使用 scroll-snap 实现滑动切换
+        const vertical = context.flag("vertical");
+        if (vertical === true) {
+            ["display: flex", "flex-direction: column", "overflow-y: auto", "scroll-snap-type: y mandatory"].forEach((item) => context.style(item));
+        } else {
+            ["display: flex", "overflow-x: auto", "scroll-snap-type: x mandatory"].forEach((item) => context.style(item));
+            if (typeof vertical === "object") context.dynamic("vertical");
+        }
+        context.unsupported(
+            "autoplay",
+            "interval",
+            "duration",
+            "circular",
+            "current",
+            "current-item-id",
+            "indicator-*",
+            "previous-margin",
+            "next-margin",
+            "display-multiple-items",
+            "easing-function",
+            "snap-to-edge",
+            "skip-hidden-item-layout"
+        );
+    },
+
+    "swiper-item"(context) {
+        context.style("flex: 0 0 100%");
+        context.style("scroll-snap-align: start");
+        context.unsupported("item-id", "skip-hidden-item-layout");
+    },
+
+    button(context) {
+        const formType = context.take("form-type");
+        context.add("type", formType === "submit" || formType === "reset" ? formType : "button", formType ? "form-type" : undefined);
+        context.unsupported(
+            "type",
+            "size",
+            "plain",
+            "loading",
+            "open-type",
+            "lang",
+            "session-from",
+            "send-message-*",
+            "show-message-card",
+            "app-parameter"
+        );
+    },
+
+    navigator(context) {
+        const url = context.take("url");
+        if (url !== undefined) {
+            const expression = getMustacheExpression(url);
+            if (expression === null) {
+                context.add("to", url, "url");
+            } else {
+                context.add(":to", expression, "url");
+            }
+        }
+
+        const openType = context.take("open-type");
+        if (openType === "redirect" || openType === "reLaunch") {
+            context.add("replace", "", "open-type");
+        } else if (openType !== undefined && openType !== "navigate" && openType !== "switchTab") {
+            context.output.unsupported.push("open-type");
+        }
+        context.unsupported("delta", "target", "app-id", "path", "extra-data", "version");
+    },
+
+    text(context) {
+        context.flagStyle("selectable", ["user-select: text"]);
+        context.flagStyle("user-select", ["user-select: text"]);
+        context.unsupported("space", "decode");
+    },
+};
+
+/**
+ * 转换内置组件的属性
+ * @param tag - 小程序标签名
+ * @param props - 元素上的普通属性
+ * @returns 转换结果，不是需要转换的内置组件时返回 null
+ */
+export function convertBuiltInComponent(tag: string, props: Record<string, string>): ComponentOutput | null {
+    const converter = componentConverters[tag];
+    if (!converter) {
+        return null;
+    }
+    const context = new ComponentContext(props);
+    converter(context);
+    return context.output;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { parseAttributeModes, parseModes, pruneConditionalCompilation } from "./conditionalCompilation";
+import { convertMpxToVue } from "./convertToVue";
+import { MpxTemplateParser } from "./mpxTemplateParser";
+import { printTemplate } from "./printer";
+
+const template = `<view @wx>wx</view><view @web|ali class="a" class@wx="b" bindtap@web="onWeb">web</view><view wx:mode="ali">ali</view><view wx:if@web="{{a}}">x</view>`;
+
+function parse() {
+    return new MpxTemplateParser(template).parse().ast;
+}
+
+describe("conditionalCompilation", () => {
+    it("解析平台列表和属性名上的平台后缀", () => {
+        expect(parseModes("wx|_ali")).toEqual(["wx", "ali"]);
+        expect(parseModes("wx|unknown")).toBeNull();
+        expect(parseAttributeModes("@wx|web")).toEqual({ baseName: "@wx|web", modes: ["wx", "web"], marker: true });
+        expect(parseAttributeModes("class@wx")).toEqual({ baseName: "class", modes: ["wx"], marker: false });
+        expect(parseAttributeModes("a@example")).toEqual({ baseName: "a@example", marker: false });
+    });
+
+    it("按目标平台裁剪元素和属性，属于目标平台的属性去掉后缀", () => {
+        const ast = parse();
+        expect(printTemplate(pruneConditionalCompilation(ast, "web"))).toBe(`<view class="a" bindtap="onWeb">web</view><view wx:if="{{a}}">x</view>`);
+        expect(printTemplate(pruneConditionalCompilation(ast, "wx"))).toBe(`<view>wx</view><view>x</view>`);
+        // 原 AST 不会被修改
+        expect(printTemplate(ast)).toBe(template);
+    });
+
+    it("转换为 Vue 时按 web 平台裁剪，去掉后缀的属性重新识别为指令", () => {
+        expect(convertMpxToVue(parse(), { template })).toMatch(/^<div class="a" @click="onWeb\(.*\)">\n {2}web\n<\/div>\n<div v-if="a">\n {2}x\n<\/div>$/);
+        expect(convertMpxToVue(parse(), { template, mode: "wx" })).toBe(`<div>\n  wx\n</div>\n<div>\n  x\n</div>`);
+    });
+});
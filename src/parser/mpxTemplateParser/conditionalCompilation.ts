@@ -0,0 +1,94 @@
+import { createDirective, groupAttributes, isDirectiveName, isModeMarker } from "./attributes";
+import { ASTNode, Attribute } from "./types";
+
+// Mpx 支持的目标平台
+export const mpxModes = ["wx", "ali", "swan", "qq", "tt", "jd", "dd", "qa", "web", "ios", "android", "harmony"];
+
+/**
+ * 解析以 "|" 分隔的平台列表，平台名前的 "_" 表示该平台上不做转换，这里与普通平台一样处理
+ * @param value - 平台列表，如 wx|ali
+ * @returns 平台名数组，包含未知平台时返回 null
+ */
+export function parseModes(value: string): string[] | null {
+    const modes = value.split("|").map((mode) => mode.trim().replace(/^_/, ""));
+    return modes.length > 0 && modes.every((mode) => mpxModes.includes(mode)) ? modes : null;
+}
+
+/**
+ * 解析属性名上的条件编译后缀
+ * - @wx|ali：元素级标记，元素只在这些平台上保留
+ * - class@wx|ali：属性只在这些平台上保留
+ * @param name - 属性名
+ * @returns 去掉后缀的属性名、平台列表，以及是否是元素级标记
+ */
+export function parseAttributeModes(name: string): { baseName: string; modes?: string[]; marker: boolean } {
+    if (name.startsWith("@")) {
+        const modes = parseModes(name.slice(1));
+        return modes ? { baseName: name, modes, marker: true } : { baseName: name, marker: false };
+    }
+
+    const index = name.lastIndexOf("@");
+    const modes = index > 0 ? parseModes(name.slice(index + 1)) : null;
+    return modes ? { baseName: name.slice(0, index), modes, marker: false } : { baseName: name, marker: false };
+}
+
+/**
+ * 获取元素级条件编译的平台
+ * @param attributes - 元素的所有属性
+ * @returns 平台列表，来自 @wx|ali 标记或 wx:mode 指令，没有限制时为 undefined
+ */
+export function getElementModes(attributes: Attribute[]): string[] | undefined {
+    const marker = attributes.find(isModeMarker);
+    if (marker) {
+        return marker.modes;
+    }
+    const mode = attributes.find((attr) => attr.directive?.kind === "mode");
+    return (mode && parseModes(mode.value)) || undefined;
+}
+
+/**
+ * 按目标平台裁剪条件编译的内容
+ * - 不属于目标平台的元素和属性被移除
+ * - 属于目标平台的属性去掉 "@" 后缀，重新识别为普通属性或指令
+ * - 元素级标记和 wx:mode 被移除
+ * @param ast - 模板 AST
+ * @param mode - 目标平台
+ * @returns 裁剪后的新 AST，原 AST 不会被修改
+ */
+export function pruneConditionalCompilation(ast: ASTNode[], mode: string): ASTNode[] {
+    const result: ASTNode[] = [];
+
+    for (const node of ast) {
+        if (node.modes && !node.modes.includes(mode)) {
+            continue;
+        }
+        if (node.type !== "element") {
+            result.push(node);
+            continue;
+        }
+
+        const all: Attribute[] = node.attributes?.attributesAll || [];
+        const attributes = all.filter((attr) => !isModeMarker(attr) && attr.directive?.kind !== "mode" && (!attr.modes || attr.modes.includes(mode)));
+        const changed = attributes.length !== all.length || attributes.some((attr) => attr.modes);
+        result.push({
+            ...node,
+            modes: undefined,
+            attributes: changed ? groupAttributes(attributes.map(stripModes)) : node.attributes,
+            children: node.children ? pruneConditionalCompilation(node.children, mode) : undefined,
+        });
+    }
+
+    return result;
+}
+
+// 去掉属性名上的平台后缀，修改后的属性需要重新生成原文
+function stripModes(attr: Attribute): Attribute {
+    if (!attr.modes) {
+        return attr;
+    }
+
+    const { baseName } = parseAttributeModes(attr.name);
+    const isDirective = isDirectiveName(baseName);
+    const directive = isDirective ? { ...createDirective(baseName, attr.value), expression: attr.expression } : undefined;
+    return { ...attr, name: baseName, modes: undefined, isDirective, directive, raw: undefined };
+}
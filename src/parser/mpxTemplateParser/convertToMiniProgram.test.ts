@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { MiniProgramTarget, convertMpxToMiniProgram } from "./convertToMiniProgram";
+import { MpxTemplateParser } from "./mpxTemplateParser";
+
+function convert(template: string, target: MiniProgramTarget) {
+    const { ast } = new MpxTemplateParser(template).parse();
+    return convertMpxToMiniProgram(ast, { target, template, locale: "en" });
+}
+
+describe("convertMpxToMiniProgram", () => {
+    it("替换指令前缀、模板和脚本文件扩展名", () => {
+        const template = `<import src="./a.wxml"/><wxs module="m" src="./m.wxs"/><view wx:if="{{a}}" wx:for="{{list}}" wx:key="id">{{item}}</view>`;
+        expect(convert(template, "wx").code).toBe(template);
+        expect(convert(template, "tt").code).toBe(
+            `<import src="./a.ttml"/><sjs module="m" src="./m.sjs"/><view tt:if="{{a}}" tt:for="{{list}}" tt:key="id">{{item}}</view>`
+        );
+        expect(convert(template, "qq").code).toBe(
+            `<import src="./a.qml"/><qs module="m" src="./m.qs"/><view qq:if="{{a}}" qq:for="{{list}}" qq:key="id">{{item}}</view>`
+        );
+    });
+
+    it("百度的条件和列表指令不使用花括号，wx:key 转换为 trackBy", () => {
+        expect(convert(`<view wx:if="{{a}}" wx:for="{{list}}" wx:key="id">{{item}}</view>`, "swan").code).toBe(
+            `<view s-if="a" s-for="item, index in list trackBy item.id">{{item}}</view>`
+        );
+        expect(convert(`<view wx:for="{{list}}" wx:for-item="row" wx:key="{{row.id}}"/><view wx:for="{{list}}" wx:key="*this"/>`, "swan").code).toBe(
+            `<view s-for="row, index in list trackBy row.id"/><view s-for="item, index in list trackBy item"/>`
+        );
+        expect(convert(`<view wx:if="{{ {a: {b: 1}}.a.b }}"/><view wx:if="{{a}}-{{b}}"/>`, "swan").code).toBe(`<view s-if="{a: {b: 1}}.a.b"/><view s-if="{{a}}-{{b}}"/>`);
+    });
+
+    it("支付宝的事件、<import-sjs> 和 button 的 open-type", () => {
+        const { code, warnings } = convert(
+            `<wxs module="m" src="./m.wxs"/><wxs module="n">module.exports = {}</wxs><view bindtap="onTap" catch:longpress="onLong" @tap.stop="v"/><button open-type="getUserInfo"/>`,
+            "ali"
+        );
+        expect(code).toBe(
+            `<import-sjs name="m" from="./m.sjs"/><view onTap="onTap" catchLongTap="onLong" catchTap="v"/><button open-type="getAuthorize" scope="userInfo"/>`
+        );
+        expect(warnings.map((warning) => warning.code)).toEqual(["target-inline-script-unsupported"]);
+    });
+
+    it("报告依赖 Mpx 运行时的指令和平台不支持的组件", () => {
+        const { code, warnings } = convert(`<view wx:class="{{c}}"/><open-data type="userNickName"/>`, "tt");
+        expect(code).toBe(`<view/><open-data type="userNickName"/>`);
+        expect(warnings.map((warning) => warning.message)).toEqual(["wx:class is not supported on tt", "<open-data> is not supported on tt"]);
+    });
+
+    it("按目标平台裁剪条件编译的内容", () => {
+        expect(convert(`<view @ali>a</view><view @wx>w</view><view class@ali="x"/>`, "ali").code).toBe(`<view>a</view><view class="x"/>`);
+    });
+
+    it("未知的目标平台抛出错误", () => {
+        expect(() => convert("<view/>", "xx" as MiniProgramTarget)).toThrow("Unknown mini-program target: xx");
+    });
+});
@@ -0,0 +1,379 @@
+import { pruneConditionalCompilation } from "./conditionalCompilation";
+import { DiagnosticOptions, createDiagnostic } from "./diagnostics";
+import { EventBindingKind, parseEventBinding } from "./events";
+import { convertForKey, groupAttributes } from "./attributes";
+import { getMustacheExpression } from "./mustache";
+import { printTemplateWithSourceMap } from "./printer";
+import { CodeWithSourceMap, SourceMapOptions } from "./sourceMap";
+import { ASTNode, Attribute, Diagnostic, DiagnosticCode, DiagnosticLocale } from "./types";
+
+// 支持输出的小程序平台
+export type MiniProgramTarget = "wx" | "ali" | "swan" | "tt" | "qq";
+
+// 小程序模板转换选项
+export interface MiniProgramConvertOptions extends SourceMapOptions {
+    target: MiniProgramTarget;
+    template?: string; // 模板源码，用于计算诊断信息的行列号
+    locale?: DiagnosticLocale;
+}
+
+// 小程序模板转换结果
+export interface MiniProgramConvertResult extends CodeWithSourceMap {
+    errors: Diagnostic[];
+    warnings: Diagnostic[];
+}
+
+// 平台的模板语法差异
+interface TargetConfig {
+    directivePrefix: string; // wx:if 等指令的前缀
+    templateExtension: string; // <import> / <include> 引用的模板文件扩展名
+    scriptTag: string; // <wxs> 对应的标签
+    scriptExtension: string; // <wxs src> 引用的脚本文件扩展名
+    scriptAttributes: { src: string; module: string }; // <wxs> 的 src、module 属性对应的属性名
+    inlineScript: boolean; // 是否支持内联脚本
+    stripConditionBraces: boolean; // 条件和列表指令的值不使用 {{ }}
+    unsupportedComponents: string[];
+}
+
+const targetConfigs: Record<MiniProgramTarget, TargetConfig> = {
+    wx: {
+        directivePrefix: "wx:",
+        templateExtension: ".wxml",
+        scriptTag: "wxs",
+        scriptExtension: ".wxs",
+        scriptAttributes: { src: "src", module: "module" },
+        inlineScript: true,
+        stripConditionBraces: false,
+        unsupportedComponents: [],
+    },
+    ali: {
+        directivePrefix: "a:",
+        templateExtension: ".axml",
+        scriptTag: "import-sjs",
+        scriptExtension: ".sjs",
+        scriptAttributes: { src: "from", module: "name" },
+        inlineScript: false,
+        stripConditionBraces: false,
+        unsupportedComponents: ["open-data", "official-account", "editor", "live-pusher", "match-media", "page-container", "share-element"],
+    },
+    swan: {
+        directivePrefix: "s-",
+        templateExtension: ".swan",
+        scriptTag: "import-sjs",
+        scriptExtension: ".sjs",
+        scriptAttributes: { src: "src", module: "module" },
+        inlineScript: true,
+        stripConditionBraces: true,
+        unsupportedComponents: ["official-account", "match-media", "page-container", "share-element"],
+    },
+    tt: {
+        directivePrefix: "tt:",
+        templateExtension: ".ttml",
+        scriptTag: "sjs",
+        scriptExtension: ".sjs",
+        scriptAttributes: { src: "src", module: "module" },
+        inlineScript: true,
+        stripConditionBraces: false,
+        unsupportedComponents: ["official-account", "open-data", "editor", "live-pusher", "share-element"],
+    },
+    qq: {
+        directivePrefix: "qq:",
+        templateExtension: ".qml",
+        scriptTag: "qs",
+        scriptExtension: ".qs",
+        scriptAttributes: { src: "src", module: "module" },
+        inlineScript: true,
+        stripConditionBraces: false,
+        unsupportedComponents: ["official-account", "live-pusher"],
+    },
+};
+
+// 支付宝的事件属性前缀，如 bindtap => onTap、catchtap => catchTap
+const aliEventPrefixes: Record<Exclude<EventBindingKind, "vue">, string> = {
+    bind: "on",
+    catch: "catch",
+    "capture-bind": "capture-on",
+    "capture-catch": "capture-catch",
+    "mut-bind": "on",
+};
+
+// 支付宝上事件名不同的事件
+const aliEventNames: Record<string, string> = {
+    longpress: "longTap",
+    longtap: "longTap",
+};
+
+// 支付宝 <button> 的 open-type，授权类能力统一为 getAuthorize + scope
+const aliButtonOpenTypes: Record<string, string> = {
+    getUserInfo: "userInfo",
+    getPhoneNumber: "phoneNumber",
+};
+
+// 依赖 Mpx 运行时、原生小程序不支持的指令
+const runtimeDirectiveKinds = ["ref", "bind", "class", "style", "model", "model-option"];
+
+// Vue 风格事件修饰符对应的绑定方式
+const vueModifierKinds: Record<string, EventBindingKind> = {
+    stop: "catch",
+    capture: "capture-bind",
+};
+
+// 小程序模板转换器
+class MiniProgramEmitter {
+    private options: MiniProgramConvertOptions = { target: "wx" };
+    private config: TargetConfig = targetConfigs.wx;
+    private errors: Diagnostic[] = [];
+    private warnings: Diagnostic[] = [];
+
+    convert(ast: ASTNode[], options: MiniProgramConvertOptions): MiniProgramConvertResult {
+        this.options = options;
+        this.config = targetConfigs[options.target];
+        this.errors = [];
+        this.warnings = [];
+
+        if (!this.config) {
+            throw new Error(`Unknown mini-program target: ${options.target}`);
+        }
+
+        const nodes = this.convertNodes(pruneConditionalCompilation(ast, options.target));
+        const { code, map } = printTemplateWithSourceMap(nodes, options);
+        return { code, map, errors: this.errors, warnings: this.warnings };
+    }
+
+    private convertNodes(nodes: ASTNode[]): ASTNode[] {
+        const result: ASTNode[] = [];
+        for (const node of nodes) {
+            const converted = node.type === "element" ? this.convertElement(node) : node;
+            if (converted) {
+                result.push(converted);
+            }
+        }
+        return result;
+    }
+
+    // 转换元素，元素在目标平台上需要移除时返回 null
+    private convertElement(node: ASTNode): ASTNode | null {
+        const tag = node.name || "";
+        if (this.config.unsupportedComponents.includes(tag)) {
+            this.addDiagnostic("unsupported-target-construct", "warning", node, { args: { name: `<${tag}>`, target: this.options.target } });
+        }
+
+        let name = tag;
+        let attributes: Attribute[] = [];
+        if (tag === "wxs") {
+            if (!this.config.inlineScript && (node.children || []).some((child) => child.content?.trim())) {
+                this.addDiagnostic("target-inline-script-unsupported", "warning", node, { args: { tag: this.config.scriptTag, target: this.options.target } });
+                return null;
+            }
+            name = this.config.scriptTag;
+            attributes = this.convertScriptAttributes(node);
+        } else {
+            attributes = this.convertAttributes(node);
+        }
+
+        return {
+            ...node,
+            name,
+            endTag: node.endTag && name !== tag ? `</${name}>` : node.endTag,
+            attributes: groupAttributes(attributes),
+            children: node.children ? this.convertNodes(node.children) : undefined,
+        };
+    }
+
+    // <wxs> 的属性：src 和 module 按平台改名，src 的扩展名改为平台的脚本扩展名
+    private convertScriptAttributes(node: ASTNode): Attribute[] {
+        const all: Attribute[] = node.attributes?.attributesAll || [];
+        return all.map((attr) => {
+            if (attr.name === "src") {
+                return renameAttribute(attr, this.config.scriptAttributes.src, replaceExtension(attr.value, ".wxs", this.config.scriptExtension));
+            }
+            if (attr.name === "module") {
+                return renameAttribute(attr, this.config.scriptAttributes.module);
+            }
+            return attr;
+        });
+    }
+
+    private convertAttributes(node: ASTNode): Attribute[] {
+        const all: Attribute[] = node.attributes?.attributesAll || [];
+        const result: Attribute[] = [];
+
+        for (const attr of all) {
+            if (attr.isDirective && attr.directive) {
+                result.push(...this.convertDirective(attr));
+            } else {
+                result.push(...this.convertProp(node, attr));
+            }
+        }
+
+        // 百度的 s-for 在一个属性中声明列表、别名和 trackBy
+        if (this.options.target === "swan") {
+            return this.mergeSwanFor(node, result);
+        }
+        return result;
+    }
+
+    // 普通属性的平台差异
+    private convertProp(node: ASTNode, attr: Attribute): Attribute[] {
+        if ((node.name === "import" || node.name === "include") && attr.name === "src") {
+            return [renameAttribute(attr, "src", replaceExtension(attr.value, ".wxml", this.config.templateExtension))];
+        }
+        if (this.options.target === "ali" && node.name === "button" && attr.name === "open-type" && attr.value in aliButtonOpenTypes) {
+            return [renameAttribute(attr, "open-type", "getAuthorize"), renameAttribute(attr, "scope", aliButtonOpenTypes[attr.value])];
+        }
+        return [attr];
+    }
+
+    private convertDirective(attr: Attribute): Attribute[] {
+        const directive = attr.directive!;
+        const prefix = this.config.directivePrefix;
+
+        switch (directive.kind) {
+            case "event":
+                return this.convertEvent(attr);
+
+            case "if":
+            case "elif":
+            case "for":
+                return [renameAttribute(attr, prefix + directive.name.slice(3), this.convertConditionValue(attr.value))];
+
+            case "else":
+            case "for-item":
+            case "for-index":
+            case "key":
+                return [renameAttribute(attr, prefix + directive.name.slice(3))];
+
+            case "show":
+                // 原生小程序没有 wx:show，使用 hidden 属性实现
+                return [renameAttribute(attr, "hidden", `{{!(${stripMustache(attr.value)})}}`)];
+
+            case "mode":
+                return [];
+
+            default:
+                if (runtimeDirectiveKinds.includes(directive.kind || "")) {
+                    this.addDiagnostic("unsupported-target-construct", "warning", attr, { args: { name: directive.name, target: this.options.target } });
+                    return [];
+                }
+                return [directive.name.startsWith("wx:") ? renameAttribute(attr, prefix + attr.name.slice(3)) : attr];
+        }
+    }
+
+    /**
+     * 转换事件绑定
+     * 支付宝使用 onTap / catchTap 形式，其他平台使用 bind / catch 前缀
+     * Vue 风格的 @tap 转换为 bindtap，.stop、.capture 修饰符转换为 catch、capture-bind
+     * @param attr - 事件属性
+     * @returns 转换后的属性
+     */
+    private convertEvent(attr: Attribute): Attribute[] {
+        const binding = parseEventBinding(attr.name);
+        if (!binding) {
+            return [attr];
+        }
+
+        let kind: EventBindingKind = binding.kind;
+        for (const modifier of binding.modifiers) {
+            if (kind === "vue" && vueModifierKinds[modifier]) {
+                kind = vueModifierKinds[modifier];
+            } else {
+                this.addDiagnostic("unknown-event-modifier", "warning", attr, { args: { modifier } });
+            }
+        }
+        if (kind === "vue") {
+            kind = "bind";
+        }
+        if (kind === "mut-bind" && this.options.target !== "wx" && this.options.target !== "qq") {
+            this.addDiagnostic("unsupported-target-event", "warning", attr, { args: { name: attr.name, target: this.options.target } });
+            kind = "bind";
+        }
+
+        if (this.options.target === "ali") {
+            const event = aliEventNames[binding.event] || binding.event;
+            return [renameAttribute(attr, aliEventPrefixes[kind] + toPascalCase(event))];
+        }
+        // 未修改的 bindtap / bind:tap 保留原写法
+        if (kind === binding.kind && binding.modifiers.length === 0) {
+            return [attr];
+        }
+        const separator = kind === "bind" || kind === "catch" ? "" : ":";
+        return [renameAttribute(attr, `${kind}${separator}${binding.event}`)];
+    }
+
+    // 条件和列表指令的值，百度不使用 {{ }}
+    private convertConditionValue(value: string): string {
+        return this.config.stripConditionBraces ? stripMustache(value) : value;
+    }
+
+    /**
+     * 合并百度的列表渲染属性
+     * MPX: wx:for="{{list}}" wx:for-item="row" wx:key="id"
+     * 百度: s-for="row, index in list trackBy row.id"
+     * @param node - 元素节点
+     * @param attributes - 已转换的属性
+     * @returns 合并后的属性
+     */
+    private mergeSwanFor(node: ASTNode, attributes: Attribute[]): Attribute[] {
+        const forAttr = attributes.find((attr) => attr.name === "s-for");
+        if (!forAttr) {
+            return attributes;
+        }
+
+        const directives = node.attributes?.directives || {};
+        const item = directives["wx:for-item"]?.value.trim() || "item";
+        const index = directives["wx:for-index"]?.value.trim() || "index";
+        const key = directives["wx:key"]?.value.trim();
+        const trackBy = key ? ` trackBy ${convertForKey(key, item, index)}` : "";
+
+        const merged = renameAttribute(forAttr, "s-for", `${item}, ${index} in ${forAttr.value}${trackBy}`);
+        return attributes
+            .filter((attr) => !["s-for-item", "s-for-index", "s-key"].includes(attr.name))
+            .map((attr) => (attr === forAttr ? merged : attr));
+    }
+
+    private addDiagnostic(code: DiagnosticCode, severity: "error" | "warning", target: { position?: ASTNode["position"] }, options: DiagnosticOptions): void {
+        const position = target.position || { start: 0, end: 0 };
+        const diagnostic = createDiagnostic(this.options.template || "", code, severity, { start: position.start, end: position.end }, {
+            ...options,
+            locale: this.options.locale,
+        });
+        (severity === "error" ? this.errors : this.warnings).push(diagnostic);
+    }
+}
+
+// 修改属性名和值，修改后的属性按新值重新打印
+function renameAttribute(attr: Attribute, name: string, value: string = attr.value): Attribute {
+    const hasValue = value !== attr.value || attr.hasValue !== false;
+    return { ...attr, name, value, isDirective: false, directive: undefined, modes: undefined, raw: undefined, rawValue: undefined, hasValue };
+}
+
+// 去掉完整包裹属性值的 {{ }}
+function stripMustache(value: string): string {
+    return getMustacheExpression(value) ?? value;
+}
+
+// 替换文件扩展名
+function replaceExtension(path: string, from: string, to: string): string {
+    return path.endsWith(from) ? path.slice(0, -from.length) + to : path;
+}
+
+// 事件名转换为首字母大写的驼峰形式，如 longTap => LongTap、my-event => MyEvent
+function toPascalCase(name: string): string {
+    return name.replace(/(^|[-_])(\w)/g, (_, _separator, char: string) => char.toUpperCase());
+}
+
+/**
+ * 将 MPX 模板转换为指定小程序平台的模板
+ * - 按目标平台裁剪条件编译的内容
+ * - 指令前缀改为平台前缀（wx: => a: / s- / tt: / qq:）
+ * - 事件绑定改为平台写法（支付宝 bindtap => onTap）
+ * - <wxs>、模板文件扩展名和部分组件属性按平台转换
+ * - 依赖 Mpx 运行时的指令和平台不支持的组件给出警告
+ * @param ast - MPX 模板的 AST
+ * @param options - 目标平台、模板源码和诊断语言
+ * @returns 小程序模板、Source Map 和诊断信息
+ */
+export function convertMpxToMiniProgram(ast: ASTNode[], options: MiniProgramConvertOptions): MiniProgramConvertResult {
+    const emitter = new MiniProgramEmitter();
+    return emitter.convert(ast, options);
+}
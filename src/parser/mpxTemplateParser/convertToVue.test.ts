@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+import { VueConvertOptions, convertMpxToVueWithSourceMap } from "./convertToVue";
+import { MpxTemplateParser } from "./mpxTemplateParser";
+
+function convert(template: string, options: VueConvertOptions = {}) {
+    const { ast } = new MpxTemplateParser(template).parse();
+    return convertMpxToVueWithSourceMap(ast, { template, ...options });
+}
+
+describe("convertMpxToVue", () => {
+    describe("class 和 style", () => {
+        it("wx:class / wx:style 中嵌套花括号的对象字面量", () => {
+            expect(convert(`<view wx:class="{{ {a: {b: 1}} }}" wx:style="{{ {color: c} }}"/>`).code).toBe(
+                `<div :class="{a: {b: 1}}" :style="{color: c}">\n</div>`
+            );
+            expect(convert(`<view wx:class="{{ {active: isActive}}}"/>`).code).toBe(`<div :class="{active: isActive}">\n</div>`);
+        });
+
+        it("合并静态 class 和插值", () => {
+            expect(convert(`<view class="item {{cls}}" wx:class="{{ {on: on} }}"/>`).code).toBe(`<div class="item" :class="[cls, {on: on}]">\n</div>`);
+        });
+
+        it("合并静态 style、插值和 wx:style", () => {
+            expect(convert(`<view style="color: red; font-size: {{size}}px" wx:style="{{ {width: w + 'px'} }}"/>`).code).toBe(
+                `<div style="color: red;" :style="['font-size: ' + (size) + 'px', {width: w + 'px'}]">\n</div>`
+            );
+            expect(convert(`<view style="{{s}}" wx:class="{{ [x, {b: y}] }}"/>`).code).toBe(`<div :style="s" :class="[x, {b: y}]">\n</div>`);
+        });
+    });
+
+    describe("插值属性", () => {
+        it("整个值为插值时绑定表达式，部分插值时转换为模板字符串", () => {
+            expect(convert(`<view id="{{id}}" data-a="x-{{b}}-y" aria-label="{{ t }}" disabled/>`).code).toBe(
+                "<div :id=\"id\" :data-a=\"`x-${b}-y`\" :aria-label=\"t\" disabled>\n</div>"
+            );
+            expect(convert(`<my-comp prop="{{ {a: 1} }}" title="t"/>`).code).toBe(`<my-comp :prop="{a: 1}" title="t">\n</my-comp>`);
+        });
+
+        it("布尔属性的 {{true}} / {{false}} 转换为静态属性", () => {
+            expect(convert(`<button disabled="{{d}}" hidden="{{false}}" checked="{{true}}"/>`).code).toBe(`<button type="button" :disabled="d" checked>\n</button>`);
+        });
+
+        it("v-bind、wx:bind、wx:ref 和 <template is> 中嵌套花括号的表达式", () => {
+            expect(convert(`<image src="/a/{{ {k: id}.k }}.png"/>`).code).toBe("<img :src=\"`/a/${{k: id}.k}.png`\" />");
+            expect(convert(`<view wx:bind="{{ {a: 1} }}" wx:ref="{{ 'r' + {x: 1}.x }}"/>`).code).toBe(`<div v-bind="{a: 1}" :ref="'r' + {x: 1}.x">\n</div>`);
+            expect(convert(`<template is="{{ {n: 'a'}.n }}" data="{{...{a: 1}}}"/>`).code).toBe(
+                `<component :is="'template-' + ({n: 'a'}.n)" v-bind="{ ...{a: 1} }" />`
+            );
+        });
+    });
+
+    describe("条件渲染", () => {
+        it("wx:if / wx:elif / wx:show 中带引号的表达式转义后输出", () => {
+            expect(convert(`<view wx:if='{{ type === "a" }}'/><view wx:elif='{{ type === "b" }}'/>`).code).toBe(
+                `<div v-if="type === &quot;a&quot;">\n</div>\n<div v-else-if="type === &quot;b&quot;">\n</div>`
+            );
+            expect(convert(`<view wx:show='{{ mode == "on" }}'/>`).code).toBe(`<div v-show="mode == &quot;on&quot;">\n</div>`);
+        });
+
+        it("<block> 转换为 <template>，忽略其上的普通属性", () => {
+            const { code, warnings } = convert(`<block wx:if="{{a}}" class="x">a</block><block wx:elif="{{b}}">b</block><block wx:else>c</block>`);
+            expect(code).toBe(`<template v-if="a">\n  a\n</template>\n<template v-else-if="b">\n  b\n</template>\n<template v-else>\n  c\n</template>`);
+            expect(warnings.map((warning) => warning.code)).toEqual(["unsupported-block-attribute"]);
+        });
+
+        it("校验条件分支链", () => {
+            expect(convert(`<view wx:elif="{{a}}"/>`).errors.map((error) => error.code)).toEqual(["orphan-conditional"]);
+            expect(convert(`<view wx:if="{{a}}"/>text<view wx:else/>`).errors.map((error) => error.code)).toEqual(["conditional-chain-text"]);
+
+            // 分支之间的注释移除后仍然相连
+            const { code, warnings } = convert(`<view wx:if="{{a}}"/><!-- c --><view wx:else/>`);
+            expect(code).toBe(`<div v-if="a">\n</div>\n<div v-else>\n</div>`);
+            expect(warnings.map((warning) => warning.code)).toEqual(["conditional-chain-comment"]);
+        });
+    });
+
+    describe("列表渲染", () => {
+        it("v-for 和 :key 中带引号的表达式转义后输出", () => {
+            expect(convert(`<view wx:for='{{ map["list"] }}' wx:key='{{ item["id"] }}'/>`).code).toBe(
+                `<div v-for="(item, index) in map[&quot;list&quot;]" :key="item[&quot;id&quot;]">\n</div>`
+            );
+        });
+
+        it("列表表达式中嵌套花括号，数字和字符串列表", () => {
+            expect(convert(`<view wx:for="{{ {a: list}.a }}" wx:key="*this"/>`).code).toBe(`<div v-for="(item, index) in {a: list}.a" :key="item">\n</div>`);
+            expect(convert(`<view wx:for="{{3}}"/>`).code).toBe(`<div v-for="(item, index) in Array.from({ length: 3 }, (_, i) => i)">\n</div>`);
+            expect(convert(`<view wx:for="ab"/>`).code).toBe(`<div v-for="(item, index) in 'ab'">\n</div>`);
+        });
+
+        it("wx:for-item、wx:for-index 重命名列表变量，wx:key 为属性名时从列表项取值", () => {
+            expect(convert(`<view wx:for="{{list}}" wx:for-item="row" wx:for-index="i" wx:key="id">{{i}}{{row.id}}</view>`).code).toBe(
+                `<div v-for="(row, i) in list" :key="row.id">\n  {{i}}{{row.id}}\n</div>`
+            );
+            expect(convert(`<view wx:for="{{list}}" wx:for-item="{{row}}"/>`).code).toBe(`<div v-for="(row, index) in list">\n</div>`);
+        });
+
+        it("wx:for 与 wx:if 同时使用时外层包裹 <template v-for>", () => {
+            expect(convert(`<view wx:for="{{list}}" wx:if="{{item.ok}}"/>`).code).toBe(
+                `<template v-for="(item, index) in list">\n  <div v-if="item.ok">\n  </div>\n</template>`
+            );
+            expect(convert(`<block wx:for="{{list}}" wx:key="id">{{item}}</block>`).code).toBe(
+                `<template v-for="(item, index) in list" :key="item.id">\n  {{item}}\n</template>`
+            );
+        });
+    });
+
+    describe("事件", () => {
+        it("switch / checkbox 的 change 事件从 checked 取值", () => {
+            const detail = "{ type: 'change', detail: { value: $event.target.checked }, target: $event.target, currentTarget: $event.currentTarget, timeStamp: $event.timeStamp }";
+            expect(convert(`<switch bindchange="onChange"/>`).code).toBe(`<input type="checkbox" role="switch" @change="onChange(${detail})" />`);
+            expect(convert(`<checkbox bind:change="onChange(1, $event)"/>`).code).toBe(`<input type="checkbox" @change="onChange(1, ${detail})" />`);
+            expect(convert(`<input bindchange="onChange"/>`).code).toContain("detail: { value: $event.target.value }");
+        });
+
+        it("bind、catch、capture-bind、capture-catch 转换为对应的修饰符", () => {
+            const { code, warnings } = convert(`<view catchtap="a" capture-bind:touchstart="b" capture-catch:tap="c" mut-bind:tap="d"/>`);
+            expect(code).toMatch(/^<div @click\.stop="a\(\{ type: 'tap'.*" @touchstart\.capture="b\(.*" @click\.capture\.stop="c\(.*" @click="d\(.*">/);
+            expect(warnings.map((warning) => warning.code)).toEqual(["unsupported-event-binding"]);
+        });
+
+        it("保留支持的修饰符，报告不支持的修饰符和动态处理函数", () => {
+            const { code, warnings } = convert(`<view bind:tap.stop.foo="a" @tap.prevent="b" bindtouchend="{{ fn }}"/>`);
+            expect(code).toMatch(/^<div @click\.stop="a\(.*" @click\.prevent="b\(.*">/);
+            expect(warnings.map((warning) => warning.code)).toEqual(["unknown-event-modifier", "dynamic-event-handler"]);
+        });
+
+        it("事件处理函数和未识别的指令中的引号转义后输出", () => {
+            expect(convert(`<my-comp bindtap='fn("x")' bind:done='done("y", $event)'/>`).code).toBe(
+                `<my-comp @tap="fn(&quot;x&quot;)" @done="done(&quot;y&quot;, $event)">\n</my-comp>`
+            );
+            expect(convert(`<view catchtap='fn("x")'/>`).code).toMatch(/^<div @click\.stop="fn\(&quot;x&quot;\)">/);
+            expect(convert(`<view wx:foo='a"b'/>`).code).toBe(`<div wx:foo="a&quot;b">\n</div>`);
+        });
+
+        it("不带冒号的未知事件名作为普通属性，带冒号时转换为自定义事件", () => {
+            const { code, warnings } = convert(`<view bindlongpress="a" bindmycustom="b" bind:mycustom="c"/>`);
+            expect(code).toBe(`<div bindmycustom="b" @contextmenu="a" @mycustom="c">\n</div>`);
+            expect(warnings.map((warning) => warning.code)).toEqual(["event-approximated"]);
+        });
+    });
+
+    describe("双向绑定", () => {
+        it("switch / checkbox 默认绑定 checked，值取自 target.checked", () => {
+            expect(convert(`<switch wx:model="{{on}}"/>`).code).toBe(`<input type="checkbox" role="switch" v-model="on" />`);
+            expect(convert(`<checkbox wx:model="{{on}}" wx:model-filter="Boolean"/>`).code).toBe(
+                `<input type="checkbox" :checked="on" @change="on = Boolean($event.target.checked)" />`
+            );
+        });
+
+        it("其他表单元素取自 target.value", () => {
+            expect(convert(`<input wx:model="{{text}}"/>`).code).toBe(`<input type="text" maxlength="140" v-model="text" />`);
+            expect(convert(`<input wx:model="{{text}}" wx:model-filter="format"/>`).code).toBe(
+                `<input type="text" maxlength="140" :value="text" @input="text = format($event.target.value)" />`
+            );
+        });
+
+        it("事件和过滤器对应 v-model 修饰符时使用修饰符", () => {
+            expect(convert(`<input wx:model="{{name}}" wx:model-filter="trim" wx:model-event="blur"/>`).code).toBe(
+                `<input type="text" maxlength="140" v-model.lazy.trim="name" />`
+            );
+            expect(convert(`<slider wx:model="{{n}}" wx:model-event="changing"/>`).code).toBe(`<input type="range" v-model.number="n" />`);
+        });
+
+        it("自定义组件按 wx:model-prop、wx:model-event 和 wx:model-value-path 展开", () => {
+            expect(convert(`<my-comp wx:model="{{v}}" wx:model-prop="val" wx:model-event="change" wx:model-value-path="text"/>`).code).toBe(
+                `<my-comp :val="v" @change="v = $event.detail.text">\n</my-comp>`
+            );
+            expect(convert(`<my-comp wx:model="{{v}}" wx:model-prop="title" wx:model-event="update:title" wx:model-value-path="[]"/>`).code).toBe(
+                `<my-comp v-model:title="v">\n</my-comp>`
+            );
+        });
+
+        it("绑定的表达式和生成的处理函数转义后输出", () => {
+            expect(convert(`<input wx:model='{{ form["name"] }}'/>`).code).toBe(`<input type="text" maxlength="140" v-model="form[&quot;name&quot;]" />`);
+            expect(convert(`<my-comp wx:model='{{ form["name"] }}' wx:model-prop="title" wx:model-event="update:title" wx:model-value-path="[]"/>`).code).toBe(
+                `<my-comp v-model:title="form[&quot;name&quot;]">\n</my-comp>`
+            );
+            expect(convert(`<my-comp wx:model='{{ form["name"] }}' wx:model-value-path="text"/>`).code).toBe(
+                `<my-comp :value="form[&quot;name&quot;]" @input="form[&quot;name&quot;] = $event.detail.text">\n</my-comp>`
+            );
+        });
+
+        it("不能赋值的表达式报告错误", () => {
+            const { code, errors } = convert(`<input wx:model="{{a + 1}}"/>`);
+            expect(code).toBe(`<input type="text" maxlength="140" />`);
+            expect(errors.map((error) => error.code)).toEqual(["invalid-model-expression"]);
+        });
+    });
+
+    describe("内置组件", () => {
+        it("组件属性转换出的表达式转义后输出", () => {
+            expect(convert(`<input type='{{ t ? "number" : "text" }}'/>`).code).toBe(
+                `<input :type="t ? &quot;number&quot; : &quot;text&quot;" maxlength="140" />`
+            );
+        });
+
+        it("input 不支持的 type 按 text 输出并警告", () => {
+            const { code, warnings } = convert(`<input type="tel"/>`);
+            expect(code).toBe(`<input type="text" maxlength="140" />`);
+            expect(warnings.map((warning) => warning.code)).toEqual(["unsupported-component-attribute"]);
+        });
+    });
+});
+
@@ -1,69 +1,320 @@
 import { ASTTraverser } from "./ASTTraverser";
-import { ASTNode } from "./types";
+import { convertForKey } from "./attributes";
+import { builtInComponentNames, convertBuiltInComponent } from "./builtInComponents";
+import { DiagnosticOptions, createDiagnostic } from "./diagnostics";
+import { pruneConditionalCompilation } from "./conditionalCompilation";
+import { collectIdentifiers } from "./expressionParser";
+import { EventBinding, checkableTags, getWebEvent, kindModifiers, parseEventBinding, vueEventModifiers } from "./events";
+import { MappingProfile, MappingProfileName, TagRule, applyAttributeRule, defaultTagMapping, resolveMappingProfile } from "./mappingProfiles";
+import { hasInterpolation, interpolationToExpression, splitInterpolation, splitOutsideInterpolation, toStringLiteral } from "./mustache";
+import { CodeWithSourceMap, SourceMapOptions, SourceMapWriter } from "./sourceMap";
+import type { TemplateDefinition } from "./templateResolver";
+import { WxsModule, isValidWxsModuleName } from "./wxs";
+import { ASTNode, Attribute, Diagnostic, DiagnosticCode, Directive, DiagnosticLocale, SourcePosition } from "./types";
+
+export { defaultTagMapping };
+
+// 转换后的属性及其在模板中的位置
+interface AttributeOutput {
+    code: string;
+    position?: SourcePosition;
+}
+
+// Vue 模板转换选项
+export interface VueConvertOptions extends SourceMapOptions {
+    template?: string; // 模板源码，用于计算诊断信息的行列号
+    locale?: DiagnosticLocale;
+    profile?: MappingProfileName | MappingProfile; // 标签/属性映射配置，默认 html
+    tagRules?: Record<string, TagRule>; // 按标签覆盖映射配置中的规则
+    mode?: string; // 条件编译的目标平台，默认 web
+    // usingComponents 中注册的组件：标签名 => 组件名；提供时自定义组件的标签转换为组件名，并检查模板中的标签是否都已注册
+    components?: Record<string, string>;
+}
+
+// Vue 模板转换结果
+export interface VueConvertResult extends CodeWithSourceMap {
+    errors: Diagnostic[];
+    warnings: Diagnostic[];
+    wxsModules: WxsModule[]; // 模板中的 <wxs> 模块，由 generateWxsScript 生成 <script setup> 代码
+    components: string[]; // 模板中使用的已注册组件的标签名
+}
+
+// <template name> 转换成的 Vue 组件
+export interface VueTemplateComponent extends VueConvertResult {
+    name: string; // 组件名，与 <template is> 转换后的标签名一致
+    props: string[]; // 模板中使用的数据，由 <template is> 的 data 传入
+}
+
+// wx:for 相关的属性，统一在 wx:for 中处理
+const forDirectives = ["wx:for", "wx:for-items", "wx:for-item", "wx:for-index", "wx:key"];
+
+// wx:model 的配置属性，统一在 wx:model 中处理
+const modelDirectives = ["wx:model-prop", "wx:model-event", "wx:model-value-path", "wx:model-filter"];
+
+// 条件指令，与 wx:for 写在同一元素上时需要拆分到内外两层
+const conditionalDirectives = ["wx:if", "wx:elif", "wx:else"];
+
+// <block> 上有效的指令，其余属性没有效果
+const blockDirectives = [...forDirectives, ...conditionalDirectives];
+
+// 布尔属性：与小程序一致，写了属性就为 true（包括 "false"），{{false}} 为 false
+const booleanAttributes = ["disabled", "checked", "hidden"];
 
 
 class MpxToVueConverter extends ASTTraverser {
-    private output: string = "";
+    private writer: SourceMapWriter = new SourceMapWriter();
     private indentLevel: number = 0;
     private indentSize: number = 2;
+    private options: VueConvertOptions = {};
+    private profile: MappingProfile = resolveMappingProfile();
+    private errors: Diagnostic[] = [];
+    private warnings: Diagnostic[] = [];
+    // 前面没有 wx:if 的 wx:elif / wx:else 元素
+    private orphanBranches: Set<ASTNode> = new Set();
+    // 条件分支之间需要移除的注释
+    private skippedNodes: Set<ASTNode> = new Set();
+    private wxsModules: WxsModule[] = [];
+    private usedComponents: Set<string> = new Set();
 
     // 转换 MPX 模板到 Vue 模板
-    convertToVue(ast: ASTNode[]): string {
-        this.output = "";
+    convertToVue(ast: ASTNode[], options: VueConvertOptions = {}): VueConvertResult {
+        this.writer = new SourceMapWriter(options);
         this.indentLevel = 0;
-
-        this.traverse(ast, {
+        this.options = options;
+        this.profile = resolveMappingProfile(options.profile, options.tagRules);
+        this.errors = [];
+        this.warnings = [];
+        this.orphanBranches = new Set();
+        this.skippedNodes = new Set();
+        this.wxsModules = [];
+        this.usedComponents = new Set();
+
+        const nodes = this.extractDeclarations(pruneConditionalCompilation(ast, options.mode || "web"));
+        this.checkConditionalChains(nodes);
+        this.traverse(nodes, {
             enter: (node, parent) => this.onEnterNode(node, parent),
             exit: (node, parent) => this.onExitNode(node, parent),
         });
 
-        return this.output.trim();
+        this.writer.trimEnd();
+        return {
+            code: this.writer.getCode(),
+            map: this.writer.toSourceMap(),
+            errors: this.errors,
+            warnings: this.warnings,
+            wxsModules: this.wxsModules,
+            components: [...this.usedComponents],
+        };
     }
 
     private onEnterNode(node: ASTNode, _parent?: ASTNode): void {
         if (node.type === "element") {
+            this.checkComponent(node);
             this.writeElement(node, true);
         } else if (node.type === "text") {
             this.writeText(node);
-        } else if (node.type === "comment") {
+        } else if (node.type === "comment" && !this.skippedNodes.has(node)) {
             this.writeComment(node);
         }
     }
 
+    /**
+     * 移除不输出到 Vue 模板中的声明
+     * - <wxs> 收集为模块，输出到 <script setup> 中
+     * - <template name>、<import> 和 <include> 需要先由 resolveTemplateImports 展开，模板定义单独转换为组件
+     * @param nodes - 同级节点
+     * @returns 移除后的节点
+     */
+    private extractDeclarations(nodes: ASTNode[]): ASTNode[] {
+        const result: ASTNode[] = [];
+        for (const node of nodes) {
+            const isDefinition = node.name === "template" && "name" in (node.attributes?.props || {});
+            if (node.type === "element" && node.name === "wxs") {
+                this.addWxsModule(node);
+                continue;
+            }
+            if (node.type === "element" && (isDefinition || node.name === "import" || node.name === "include")) {
+                this.addDiagnostic("unresolved-template-tag", "warning", node, { args: { tag: node.name || "" } });
+                continue;
+            }
+            result.push(node.children ? { ...node, children: this.extractDeclarations(node.children) } : node);
+        }
+        return result;
+    }
+
+    // 收集 <wxs> 模块，同名模块保留先定义的
+    private addWxsModule(node: ASTNode): void {
+        const props: Record<string, string> = node.attributes?.props || {};
+        const name = props.module?.trim();
+        if (!name) {
+            this.addDiagnostic("template-missing-attribute", "error", node, { args: { tag: "wxs", name: "module" } });
+            return;
+        }
+        if (!isValidWxsModuleName(name)) {
+            this.addDiagnostic("invalid-wxs-module", "error", this.findAttribute(node, "module") || node, { args: { name } });
+            return;
+        }
+        if (this.wxsModules.some((module) => module.name === name)) {
+            this.addDiagnostic("duplicate-wxs-module", "warning", this.findAttribute(node, "module") || node, { args: { name } });
+            return;
+        }
+
+        const code = (node.children || []).map((child) => child.content || "").join("");
+        this.wxsModules.push({ name, src: props.src?.trim() || undefined, code: code.trim() ? code : undefined, position: node.position });
+    }
+
+    /**
+     * 检查同级节点中的条件链
+     * wx:elif / wx:else 必须紧跟在 wx:if / wx:elif 之后，中间的注释会被移除，中间的文本会打断条件链
+     * @param nodes - 同级节点
+     */
+    private checkConditionalChains(nodes: ASTNode[]): void {
+        let chainStart: ASTNode | null = null;
+        let breaker: ASTNode | null = null;
+        let comments: ASTNode[] = [];
+
+        for (const node of nodes) {
+            if (node.children) {
+                this.checkConditionalChains(node.children);
+            }
+
+            if (node.type === "text" && !node.content?.trim()) {
+                continue;
+            }
+            if (node.type === "comment") {
+                if (chainStart) comments.push(node);
+                continue;
+            }
+            if (node.type !== "element") {
+                // 文本和无法解析的内容打断条件链
+                if (chainStart) breaker = node;
+                chainStart = null;
+                continue;
+            }
+
+            const directives = node.attributes?.directives || {};
+            const branch = "wx:elif" in directives ? "wx:elif" : "wx:else" in directives ? "wx:else" : null;
+
+            if (branch && chainStart) {
+                for (const comment of comments) {
+                    this.skippedNodes.add(comment);
+                    this.addDiagnostic("conditional-chain-comment", "warning", comment);
+                }
+            } else if (branch) {
+                this.orphanBranches.add(node);
+                const attr = this.findAttribute(node, branch);
+                if (breaker) {
+                    const target = breaker.type === "text" ? { position: this.getTrimmedPosition(breaker) } : breaker;
+                    this.addDiagnostic("conditional-chain-text", "error", target, { args: { directive: branch } });
+                } else {
+                    this.addDiagnostic("orphan-conditional", "error", attr || node, { args: { directive: branch } });
+                }
+            }
+
+            // 孤立的 wx:elif 按 wx:if 处理，同样开始新的条件链
+            chainStart = "wx:if" in directives || branch === "wx:elif" ? node : null;
+            // wx:for 与条件指令同在一个元素上时外层包裹了 <template v-for>，后续分支无法与之相连
+            if (this.needsForWrapper(node)) {
+                chainStart = null;
+            }
+            breaker = null;
+            comments = [];
+        }
+    }
+
+    // 查找属性，指令按去掉修饰符后的名称匹配；同名时与 directives 一致取最后一个
+    private findAttribute(node: ASTNode, name: string): Attribute | undefined {
+        const all: Attribute[] = node.attributes?.attributesAll || [];
+        return [...all].reverse().find((attr) => attr.name === name || attr.directive?.name === name);
+    }
+
+    private addDiagnostic(
+        code: DiagnosticCode,
+        severity: "error" | "warning",
+        target: { position?: SourcePosition },
+        options: DiagnosticOptions = {}
+    ): void {
+        const position = target.position || { start: 0, end: 0, line: 1, column: 1 };
+        const diagnostic = createDiagnostic(this.options.template || "", code, severity, { start: position.start, end: position.end }, {
+            ...options,
+            locale: this.options.locale,
+        });
+        if (this.options.template === undefined) {
+            // 没有模板源码时使用节点上记录的行列号
+            diagnostic.line = position.line;
+            diagnostic.column = position.column;
+            diagnostic.endLine = position.line;
+            diagnostic.endColumn = position.column + position.end - position.start;
+        }
+        (severity === "error" ? this.errors : this.warnings).push(diagnostic);
+    }
+
     private onExitNode(node: ASTNode, _parent?: ASTNode): void {
-        if (node.type === "element" && node.children && node.children.length > 0) {
+        if (node.type === "element" && !this.isSelfClosingElement(node)) {
             this.writeElement(node, false);
         }
     }
 
     private writeElement(node: ASTNode, isStart: boolean): void {
-        const tagName = this.convertTagName(node.name || "");
+        const tagName = this.getVueTagName(node);
+        // 小程序中 wx:for 的优先级高于 wx:if，Vue 3 则相反，需要把 v-for 放到外层 <template> 上
+        const wrapFor = this.needsForWrapper(node);
+        const wrapper = node.name === "block" ? undefined : this.profile.tags[node.name || ""]?.wrapChildren;
+
+        // 没有指令的 <block> 只输出子节点
+        if (!tagName) {
+            return;
+        }
 
         if (isStart) {
-            let tag = `<${tagName}`;
+            if (wrapFor) {
+                this.writeIndent();
+                this.writer.write("<template", node.position);
+                for (const attr of this.convertFor(node.attributes!)) {
+                    this.writer.write(" ");
+                    this.writer.write(attr.code, attr.position);
+                }
+                this.writer.write(">\n");
+                this.indentLevel++;
+            }
+
+            this.writeIndent();
+            this.writer.write(`<${tagName}`, node.position);
 
             // 处理属性和指令
-            if (node.attributes) {
-                const attributes = this.convertAttributes(node.attributes);
-                if (attributes) {
-                    tag += ` ${attributes}`;
-                }
+            for (const attr of this.convertAttributes(node, wrapFor)) {
+                this.writer.write(" ");
+                this.writer.write(attr.code, attr.position);
             }
 
             // 检查是否是自闭合标签
-            const isSelfClosing = !node.children || node.children.length === 0;
-            if (isSelfClosing && this.isSelfClosingTag(tagName)) {
-                tag += " />";
-                this.writeLine(tag);
+            if (this.isSelfClosingElement(node)) {
+                this.writer.write(" />\n");
             } else {
-                tag += ">";
-                this.writeLine(tag);
+                this.writer.write(">\n");
                 this.indentLevel++;
+
+                // 映射配置要求包裹子节点
+                if (wrapper) {
+                    const attributes = Object.entries(wrapper.attributes || {}).map(([name, value]) => ` ${name}="${value}"`);
+                    this.writeLine(`<${wrapper.tag}${attributes.join("")}>`);
+                    this.indentLevel++;
+                }
             }
         } else {
+            if (wrapper) {
+                this.indentLevel--;
+                this.writeLine(`</${wrapper.tag}>`);
+            }
+
             // 结束标签
             this.indentLevel--;
-            this.writeLine(`</${tagName}>`);
+            this.writeLine(`</${tagName}>`, node.endTagPosition || node.position);
+        }
+
+        if (wrapFor && (!isStart || this.isSelfClosingElement(node))) {
+            this.indentLevel--;
+            this.writeLine("</template>", node.endTagPosition || node.position);
         }
     }
 
@@ -72,164 +323,510 @@ class MpxToVueConverter extends ASTTraverser {
         if (content) {
             // 转换 MPX 插值语法到 Vue
             const vueContent = this.convertInterpolation(content);
-            this.writeLine(vueContent);
+            this.writeLine(vueContent, this.getTrimmedPosition(node), true);
         }
     }
 
     private writeComment(node: ASTNode): void {
-        this.writeLine(`<!-- ${node.content || ""} -->`);
+        this.writeLine(`<!-- ${node.content || ""} -->`, node.position);
     }
 
+    // 已注册的组件优先于内置组件，与小程序一致
     private convertTagName(mpxTag: string): string {
-        // MPX 到 Vue 标签转换映射
-        const tagMapping: Record<string, string> = {
-            view: "div",
-            text: "span",
-            image: "img",
-            navigator: "router-link",
-            button: "button",
-            input: "input",
-            textarea: "textarea",
-            "scroll-view": "div",
-            swiper: "div",
-            "swiper-item": "div",
-            picker: "select",
-            "picker-view": "div",
-            slider: "input",
-            switch: "input",
-            checkbox: "input",
-            radio: "input",
-            form: "form",
-            label: "label",
-        };
+        const components = this.options.components || {};
+        if (Object.prototype.hasOwnProperty.call(components, mpxTag)) {
+            return components[mpxTag];
+        }
+        return this.profile.tags[mpxTag]?.tag || mpxTag;
+    }
+
+    // 记录使用的已注册组件，既不是内置组件也没有注册的标签报告警告；没有提供 components 时不检查
+    private checkComponent(node: ASTNode): void {
+        const components = this.options.components;
+        const tag = node.name || "";
+        if (!components) {
+            return;
+        }
+        if (Object.prototype.hasOwnProperty.call(components, tag)) {
+            this.usedComponents.add(tag);
+        } else if (!builtInComponentNames.includes(tag) && !(tag in this.profile.tags)) {
+            this.addDiagnostic("unknown-component", "warning", node, { args: { tag } });
+        }
+    }
 
-        return tagMapping[mpxTag] || mpxTag;
+    // 元素转换后的标签名，带条件或列表指令的 <block> 转换为 <template>，其余 <block> 返回空字符串
+    private getVueTagName(node: ASTNode): string {
+        if (node.name === "block") {
+            const directives = node.attributes?.directives || {};
+            const structural = [...forDirectives, ...conditionalDirectives].some((name) => name in directives);
+            return structural ? "template" : "";
+        }
+        if (isTemplateInstance(node)) {
+            // is 为动态值时使用 <component :is>
+            const name = node.attributes!.props.is.trim();
+            return hasInterpolation(name) ? "component" : getTemplateComponentName(name);
+        }
+        return this.convertTagName(node.name || "");
     }
 
-    private convertAttributes(attributes: Record<string, any>): string {
-        const parts: string[] = [];
+    private convertAttributes(node: ASTNode, skipFor: boolean = false): AttributeOutput[] {
+        const attributes: Record<string, any> = node.attributes || {};
+        const parts: AttributeOutput[] = [];
+        const all: Attribute[] = attributes.attributesAll || [];
+        const positionOf = (name: string) => this.findAttribute(node, name)?.position;
 
-        // 处理普通属性
-        if (attributes.props) {
-            for (const [name, value] of Object.entries(attributes.props)) {
-                const vueAttr = this.convertAttribute(name, value as string);
-                if (vueAttr) {
-                    parts.push(vueAttr);
+        // 列表渲染
+        if (!skipFor) {
+            parts.push(...this.convertFor(attributes));
+        }
+
+        // <block> 上只保留条件和列表指令
+        if (node.name === "block") {
+            for (const attr of all) {
+                if (!blockDirectives.includes(attr.isDirective && attr.directive ? attr.directive.name : attr.name)) {
+                    this.addDiagnostic("unsupported-block-attribute", "warning", attr, { args: { name: attr.name } });
+                }
+            }
+        }
+
+        // <template is> 转换为组件，data 通过 v-bind 传入
+        let props: Record<string, string> = node.name === "block" ? {} : attributes.props || {};
+        if (isTemplateInstance(node)) {
+            const { is, data, ...rest } = props;
+            if (hasInterpolation(is)) {
+                const expression = `${toStringLiteral(getTemplateComponentName(""))} + (${interpolationToExpression(is.trim())})`;
+                parts.push({ code: `:is="${escapeAttribute(expression)}"`, position: positionOf("is") });
+            }
+            if (data !== undefined && hasInterpolation(data)) {
+                // data 的值是省略了花括号的对象字面量
+                parts.push({ code: `v-bind="${escapeAttribute(`{ ${interpolationToExpression(data.trim())} }`)}"`, position: positionOf("data") });
+            }
+            props = rest;
+        }
+
+        // 内置组件转换为原生元素时，先按组件语义转换属性
+        const component = this.profile.native ? convertBuiltInComponent(node.name || "", props) : null;
+        if (component) {
+            for (const name of component.unsupported) {
+                this.addDiagnostic("unsupported-component-attribute", "warning", this.findAttribute(node, name) || node, {
+                    args: { tag: node.name || "", name },
+                });
+            }
+            for (const name of component.dynamic) {
+                this.addDiagnostic("dynamic-component-attribute", "warning", this.findAttribute(node, name) || node, {
+                    args: { tag: node.name || "", name },
+                });
+            }
+            for (const attr of component.attributes) {
+                // 值为空的静态属性输出为布尔属性，如 autofocus
+                const code = attr.name.startsWith(":") ? `${attr.name}="${escapeAttribute(attr.value)}"` : attr.value ? bindAttribute(attr.name, attr.value) : attr.name;
+                if (code) {
+                    parts.push({ code, position: attr.source ? positionOf(attr.source) : undefined });
                 }
             }
         }
 
+        // 处理普通属性
+        const componentStyles = component?.styles || [];
+        for (const [name, value] of Object.entries(props)) {
+            if (component?.consumed.has(name)) continue;
+            if (name === "class" || name === "style") {
+                parts.push(...this.convertClassOrStyle(node, name, value, componentStyles));
+                continue;
+            }
+            const vueAttr = this.convertAttribute(node, name, value);
+            if (vueAttr) {
+                parts.push({ code: vueAttr, position: positionOf(name) });
+            }
+        }
+        // 只有 wx:class / wx:style 或组件生成的样式时
+        const directives = attributes.directives || {};
+        if (!("class" in props) && "wx:class" in directives) {
+            parts.push(...this.convertClassOrStyle(node, "class", undefined, []));
+        }
+        if (!("style" in props) && ("wx:style" in directives || componentStyles.length > 0)) {
+            parts.push(...this.convertClassOrStyle(node, "style", undefined, componentStyles));
+        }
+
+        // 映射配置中额外添加的属性
+        const addAttributes = this.profile.tags[node.name || ""]?.addAttributes || {};
+        for (const [name, value] of Object.entries(addAttributes)) {
+            parts.push({ code: `${name}="${value}"` });
+        }
+
         // 处理指令
         if (attributes.directives) {
-            for (const [name, directive] of Object.entries(attributes.directives)) {
-                const vueDirective = this.convertDirective(name, directive as any);
+            for (const [name, directive] of Object.entries(attributes.directives as Record<string, Directive>)) {
+                if (forDirectives.includes(name) || modelDirectives.includes(name)) continue;
+                if (name === "wx:class" || name === "wx:style") continue;
+                if (node.name === "block" && !blockDirectives.includes(name)) continue;
+                const vueDirective = this.orphanBranches.has(node)
+                    ? this.convertOrphanBranch(node, name, directive)
+                    : this.convertDirective(node, name, directive);
                 if (vueDirective) {
-                    parts.push(vueDirective);
+                    parts.push({ code: vueDirective, position: positionOf(name) });
                 }
             }
         }
 
-        return parts.join(" ");
-    }
-
-    private convertAttribute(name: string, value: string): string {
-        // 属性名转换
-        const attrMapping: Record<string, string> = {
-            "wx:key": "key",
-            "hover-class": ":class",
-            "hover-start-time": "",
-            "hover-stay-time": "",
-            "scroll-x": "",
-            "scroll-y": "",
-            "scroll-top": ":scroll-top",
-            "scroll-left": ":scroll-left",
-            "enable-back-to-top": "",
-            bindscroll: "@scroll",
-            bindinput: "@input",
-            bindchange: "@change",
-            bindblur: "@blur",
-            bindfocus: "@focus",
-        };
+        return parts;
+    }
 
-        const vueName = attrMapping[name] || name;
-        if (!vueName) return ""; // 跳过不支持的属性
+    /**
+     * 转换 class / style
+     * 不含插值的部分输出为静态属性，含插值的部分和 wx:class / wx:style 合并为 :class / :style 绑定，
+     * Vue 会把静态属性和绑定合并
+     * MPX: class="item {{cls}}" wx:class="{{ {active: isActive} }}"
+     * Vue: class="item" :class="[cls, {active: isActive}]"
+     * @param node - 元素节点
+     * @param name - class 或 style
+     * @param value - 静态属性的值，没有静态属性时为 undefined
+     * @param extraStyles - 内置组件转换生成的 CSS 声明
+     * @returns 转换后的属性
+     */
+    private convertClassOrStyle(node: ASTNode, name: "class" | "style", value: string | undefined, extraStyles: string[]): AttributeOutput[] {
+        const position = this.findAttribute(node, name)?.position;
+        const staticParts: string[] = [];
+        const dynamicParts: string[] = [];
+
+        if (value !== undefined) {
+            // 映射配置可以删除或重命名 class / style
+            const result = applyAttributeRule(this.profile, node.name || "", name, value);
+            if (result && result.name !== name) {
+                return [{ code: `${result.name}="${result.value}"`, position }];
+            }
+            for (const segment of splitOutsideInterpolation(result ? result.value : "", name === "class" ? /\s/ : /;/)) {
+                const trimmed = segment.trim();
+                if (!trimmed) continue;
+                if (hasInterpolation(trimmed)) {
+                    dynamicParts.push(interpolationToExpression(trimmed));
+                } else {
+                    staticParts.push(trimmed);
+                }
+            }
+        }
+        if (name === "style") {
+            staticParts.push(...extraStyles);
+        }
 
-        // 处理特殊情况
-        if (name === "src" && value) {
-            return `${vueName}="${value}"`;
+        const directive = node.attributes?.directives?.[`wx:${name}`];
+        if (directive && hasInterpolation(directive.value)) {
+            dynamicParts.push(interpolationToExpression(directive.value.trim()));
+        } else if (directive && directive.value.trim()) {
+            staticParts.push(directive.value.trim());
         }
 
-        if (name === "class" || name === "id" || name === "style") {
-            return `${vueName}="${value}"`;
+        const parts: AttributeOutput[] = [];
+        if (staticParts.length > 0) {
+            const code = name === "class" ? staticParts.join(" ") : staticParts.map((declaration) => `${declaration};`).join(" ");
+            parts.push({ code: `${name}="${code}"`, position });
+        }
+        if (dynamicParts.length > 0) {
+            const binding = dynamicParts.length === 1 ? dynamicParts[0] : `[${dynamicParts.join(", ")}]`;
+            parts.push({ code: `:${name}="${escapeAttribute(binding)}"`, position: position || this.findAttribute(node, `wx:${name}`)?.position });
         }
+        return parts;
+    }
 
-        return `${vueName}="${value}"`;
+    /**
+     * 按映射配置转换普通属性，值包含插值时转换为 v-bind
+     * MPX: src="/img/{{id}}.png" disabled="{{!ok}}"
+     * Vue: :src="`/img/${id}.png`" :disabled="!ok"
+     * @param node - 元素节点
+     * @param name - 属性名
+     * @param value - 属性值
+     * @returns 转换后的属性，属性被删除时返回空字符串
+     */
+    private convertAttribute(node: ASTNode, name: string, value: string): string {
+        const result = applyAttributeRule(this.profile, node.name || "", name, value);
+        return result ? bindAttribute(result.name, result.value) : "";
     }
 
-    private convertDirective(name: string, directive: { value: string; modifiers: string[] }): string {
+    private convertDirective(node: ASTNode, name: string, directive: Directive): string {
+        // 事件绑定
+        const binding = parseEventBinding(name);
+        if (binding) {
+            return this.convertEvent(node, name, binding, directive);
+        }
+
         // MPX 指令到 Vue 指令的转换
         switch (name) {
             case "wx:if":
-                return `v-if="${this.convertExpression(directive.value)}"`;
+                return `v-if="${this.convertCondition(directive.value)}"`;
 
             case "wx:elif":
-                return `v-else-if="${this.convertExpression(directive.value)}"`;
+                return `v-else-if="${this.convertCondition(directive.value)}"`;
 
             case "wx:else":
                 return "v-else";
 
-            case "wx:for":
-                // MPX: wx:for="{{ list }}" wx:key="index"
-                // Vue: v-for="(item, index) in list" :key="index"
-                const listExpr = this.convertExpression(directive.value);
-                return `v-for="(item, index) in ${listExpr}"`;
-
-            case "wx:key":
-                // 这个会在 wx:for 中处理
-                return `:key="${directive.value}"`;
+            case "wx:show":
+                return `v-show="${this.convertCondition(directive.value)}"`;
 
             case "wx:model":
-                return `v-model="${this.convertExpression(directive.value)}"`;
+                return this.convertModel(node, directive.value);
+
+            case "wx:ref": {
+                // 静态的 ref 名称直接输出，动态值绑定为 :ref
+                const value = directive.value.trim();
+                return hasInterpolation(value) ? `:ref="${escapeAttribute(interpolationToExpression(value))}"` : `ref="${value}"`;
+            }
 
-            case "bindtap":
-            case "catchtap":
-                return `@click="${directive.value}"`;
+            case "wx:bind":
+                // 展开对象中的所有属性
+                return `v-bind="${escapeAttribute(interpolationToExpression(directive.value.trim()))}"`;
 
-            case "bindinput":
-                return `@input="${directive.value}"`;
+            default:
+                return `${name}="${escapeAttribute(directive.value)}"`;
+        }
+    }
 
-            case "bindchange":
-                return `@change="${directive.value}"`;
+    /**
+     * 转换事件绑定
+     * 内置组件的事件转换为对应的 Web 事件，并把原生事件对象适配为小程序的事件对象（type、detail、dataset 等）
+     * 自定义组件的事件名保持不变，事件对象由子组件的 triggerEvent 提供
+     * @param node - 元素节点
+     * @param name - 指令名（不含修饰符）
+     * @param binding - 解析后的事件绑定
+     * @param directive - 指令
+     * @returns Vue 事件绑定，无法转换时返回空字符串
+     */
+    private convertEvent(node: ASTNode, name: string, binding: EventBinding, directive: Directive): string {
+        const target = this.findAttribute(node, name) || node;
+        const builtIn = !!this.profile.native && (node.name || "") in defaultTagMapping;
+        const web = builtIn ? getWebEvent(node.name || "", binding.event) : undefined;
+        const value = directive.value.trim();
+
+        if (web?.approximate) {
+            this.addDiagnostic("event-approximated", "warning", target, { args: { event: binding.event, web: web.name } });
+        }
+        if (binding.kind === "mut-bind") {
+            this.addDiagnostic("unsupported-event-binding", "warning", target, { args: { name: `mut-bind:${binding.event}` } });
+        }
+        if (hasInterpolation(value)) {
+            this.addDiagnostic("dynamic-event-handler", "warning", target, { args: { value } });
+            return "";
+        }
 
-            case "bindfocus":
-                return `@focus="${directive.value}"`;
+        // catch / capture 对应的修饰符在前，属性名上的修饰符在后
+        const modifiers: string[] = [...kindModifiers[binding.kind]];
+        for (const modifier of directive.modifiers || []) {
+            if (!vueEventModifiers.includes(modifier)) {
+                this.addDiagnostic("unknown-event-modifier", "warning", target, { args: { modifier } });
+            } else if (!modifiers.includes(modifier)) {
+                modifiers.push(modifier);
+            }
+        }
+        const eventName = [web ? web.name : binding.event, ...modifiers].join(".");
 
-            case "bindblur":
-                return `@blur="${directive.value}"`;
+        // catchtap="" 只阻止冒泡，没有处理函数
+        if (!value) {
+            return `@${eventName}`;
+        }
 
-            case "@tap":
-                return `@click="${directive.value}"`;
+        const eventObject = web?.detail ? this.createEventObject(binding.event, web.detail) : null;
+        let handler = value;
+        if (eventObject && /^[A-Za-z_$][\w$]*$/.test(value)) {
+            handler = `${value}(${eventObject})`;
+        } else if (eventObject) {
+            // Mpx 的内联传参写法 handler(item, $event)，$event 替换为适配后的事件对象
+            handler = value.replace(/("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|`(?:[^`\\]|\\.)*`)|\$event\b/g, (match, str) =>
+                str ? match : eventObject
+            );
+        }
 
-            default:
-                // 处理其他 bind 事件
-                if (name.startsWith("bind")) {
-                    const eventName = name.substring(4); // 移除 'bind' 前缀
-                    return `@${eventName}="${directive.value}"`;
-                }
+        return `@${eventName}="${escapeAttribute(handler)}"`;
+    }
 
-                if (name.startsWith("catch")) {
-                    const eventName = name.substring(5); // 移除 'catch' 前缀
-                    return `@${eventName}.stop="${directive.value}"`;
-                }
+    // 由原生事件构造小程序事件对象，dataset 通过 target / currentTarget 获取
+    private createEventObject(type: string, detail: string): string {
+        const fields = [
+            `type: '${type}'`,
+            `detail: ${detail}`,
+            "target: $event.target",
+            "currentTarget: $event.currentTarget",
+            "timeStamp: $event.timeStamp",
+        ];
+        if (type.startsWith("touch")) {
+            fields.push("touches: $event.touches", "changedTouches: $event.changedTouches");
+        }
+        return `{ ${fields.join(", ")} }`;
+    }
 
-                if (name.startsWith("@")) {
-                    // 已经是 Vue 风格的事件绑定
-                    const eventName = name.substring(1);
-                    return `@${eventName}="${directive.value}"`;
-                }
+    /**
+     * 转换双向绑定
+     * 原生表单元素使用默认配置时转换为 v-model，事件为 update:prop 且直接取 detail 时转换为 v-model:prop，
+     * 其余情况展开为 :prop 和 @event
+     * @param node - 元素节点
+     * @param value - wx:model 的值
+     * @returns Vue 属性
+     */
+    private convertModel(node: ASTNode, value: string): string {
+        const directives = node.attributes?.directives || {};
+        const option = (name: string, fallback: string) => this.convertExpression(directives[name]?.value.trim() || "") || fallback;
+        // 原生的可选中元素绑定 checked，值取自 target.checked，其余元素取自 target.value
+        const native = !!this.profile.native && (node.name || "") in defaultTagMapping;
+        const checkable = native && checkableTags.includes(node.name || "");
+        const targetValue = checkable ? "$event.target.checked" : "$event.target.value";
+        const prop = option("wx:model-prop", checkable ? "checked" : "value");
+        const event = option("wx:model-event", checkable ? "change" : "input");
+        const valuePath = option("wx:model-value-path", "value");
+        const filter = option("wx:model-filter", "");
+        const expression = this.convertExpression(value.trim());
+        const path = this.parseValuePath(valuePath);
+
+        if (!/^[A-Za-z_$][\w$]*(\s*(\.\s*[A-Za-z_$][\w$]*|\[[^\]]+\]))*$/.test(expression)) {
+            this.addDiagnostic("invalid-model-expression", "error", this.findAttribute(node, "wx:model") || node, { args: { value: expression } });
+            return "";
+        }
+
+        // 原生表单元素
+        if (native) {
+            const modifiers = this.getNativeModelModifiers(node.name || "", prop, event, path, filter);
+            if (modifiers) {
+                return `v-model${modifiers.map((modifier) => `.${modifier}`).join("")}="${escapeAttribute(expression)}"`;
+            }
+        }
+
+        // 自定义组件按 Vue 的约定触发 update:prop 事件
+        if (!native && event === `update:${prop}` && path.length === 0 && !filter) {
+            return prop === "modelValue" ? `v-model="${escapeAttribute(expression)}"` : `v-model:${prop}="${escapeAttribute(expression)}"`;
+        }
+
+        // 展开为属性绑定和事件监听
+        const web = native ? getWebEvent(node.name || "", event) : undefined;
+        let detail = "$event.detail";
+        if (native) {
+            detail = web?.detail ? `(${web.detail})` : `{ value: ${targetValue} }`;
+        }
+        let result = path.length === 0 ? detail : `${detail}${path.map((segment) => this.toMemberAccess(segment)).join("")}`;
+        if (native && path.length === 1 && path[0] === "value" && (!web?.detail || web.detail.startsWith(`{ value: ${targetValue}`))) {
+            result = targetValue;
+        }
+        if (filter === "trim") {
+            result = `String(${result}).trim()`;
+        } else if (filter) {
+            result = `${filter}(${result})`;
+        }
+
+        return `:${prop}="${escapeAttribute(expression)}" @${web ? web.name : event}="${escapeAttribute(`${expression} = ${result}`)}"`;
+    }
+
+    // 原生表单元素可以直接使用 v-model 时返回修饰符，否则返回 null
+    private getNativeModelModifiers(tag: string, prop: string, event: string, path: string[], filter: string): string[] | null {
+        if (path.length !== 1 || path[0] !== "value" || (filter && filter !== "trim")) {
+            return null;
+        }
+        const trim = filter === "trim" ? ["trim"] : [];
+
+        if ((tag === "input" || tag === "textarea") && prop === "value") {
+            if (event === "input") return trim;
+            if (event === "change" || event === "blur") return ["lazy", ...trim];
+        }
+        if (checkableTags.includes(tag) && prop === "checked" && event === "change" && !filter) {
+            return [];
+        }
+        if (tag === "slider" && prop === "value" && !filter) {
+            if (event === "changing") return ["number"];
+            if (event === "change") return ["lazy", "number"];
+        }
+        return null;
+    }
+
+    // 解析 wx:model-value-path，支持 "a.b"、"[]"（直接取 detail）和 JSON 数组 ["a", "b"]
+    private parseValuePath(valuePath: string): string[] {
+        const path = valuePath.trim();
+        if (path.startsWith("[")) {
+            try {
+                const segments = JSON.parse(path.replace(/'/g, '"'));
+                if (Array.isArray(segments)) return segments.map(String);
+            } catch {
+                // 不是合法的数组时按点分隔的路径处理
+            }
+        }
+        return path.split(".").filter(Boolean);
+    }
+
+    // 生成属性访问表达式
+    private toMemberAccess(segment: string): string {
+        return /^[A-Za-z_$][\w$]*$/.test(segment) ? `.${segment}` : `[${toStringLiteral(segment)}]`;
+    }
+
+    // 孤立的分支：wx:elif 按 wx:if 处理，wx:else 移除
+    private convertOrphanBranch(node: ASTNode, name: string, directive: Directive): string {
+        if (name === "wx:elif") {
+            return `v-if="${this.convertCondition(directive.value)}"`;
+        }
+        if (name === "wx:else") {
+            return "";
+        }
+        return this.convertDirective(node, name, directive);
+    }
+
+    // 获取 wx:for（或旧写法 wx:for-items）指令的值，不是列表渲染元素时返回 null
+    private getForDirective(attributes?: Record<string, any>): string | null {
+        const directives = attributes?.directives || {};
+        const directive = directives["wx:for"] || directives["wx:for-items"];
+        return directive ? directive.value : null;
+    }
+
+    // wx:for 与条件指令写在同一个非 <block> 元素上时，需要用 <template v-for> 包裹
+    private needsForWrapper(node: ASTNode): boolean {
+        if (node.name === "block" || this.getForDirective(node.attributes) === null) {
+            return false;
+        }
+        const directives = node.attributes?.directives || {};
+        return conditionalDirectives.some((name) => name in directives);
+    }
+
+    /**
+     * 转换列表渲染
+     * MPX: wx:for="{{list}}" wx:for-item="row" wx:for-index="i" wx:key="id"
+     * Vue: v-for="(row, i) in list" :key="row.id"
+     * @param attributes - 元素属性
+     * @returns v-for 和 :key 属性，不是列表渲染元素时返回空数组
+     */
+    private convertFor(attributes: Record<string, any>): AttributeOutput[] {
+        const value = this.getForDirective(attributes);
+        if (value === null) {
+            return [];
+        }
+
+        const directives = attributes.directives;
+        const all: Attribute[] = attributes.attributesAll || [];
+        const positionOf = (name: string) => all.find((attr) => attr.name === name)?.position;
+        const item = this.convertExpression(directives["wx:for-item"]?.value.trim() || "") || "item";
+        const index = this.convertExpression(directives["wx:for-index"]?.value.trim() || "") || "index";
+
+        const parts: AttributeOutput[] = [
+            {
+                code: `v-for="(${item}, ${index}) in ${escapeAttribute(this.convertListExpression(value))}"`,
+                position: positionOf(directives["wx:for"] ? "wx:for" : "wx:for-items"),
+            },
+        ];
+
+        const key = directives["wx:key"]?.value.trim();
+        if (key) {
+            parts.push({ code: `:key="${escapeAttribute(convertForKey(key, item, index))}"`, position: positionOf("wx:key") });
+        }
+
+        return parts;
+    }
+
+    // 转换 wx:for 的列表表达式
+    private convertListExpression(value: string): string {
+        const expr = value.trim();
+        if (!hasInterpolation(expr)) {
+            // 没有插值时按字符串遍历，与小程序一致
+            return toStringLiteral(expr);
+        }
 
-                return `${name}="${directive.value}"`;
+        const inner = interpolationToExpression(expr);
+        if (/^\d+$/.test(inner)) {
+            // 小程序中数字 N 遍历 0 到 N-1，Vue 中则是 1 到 N
+            return `Array.from({ length: ${inner} }, (_, i) => i)`;
         }
+        return inner;
     }
 
     private convertExpression(expr: string): string {
@@ -244,6 +841,11 @@ class MpxToVueConverter extends ASTTraverser {
         return expr;
     }
 
+    // 条件和显示指令的表达式，转义双引号后放在属性值中
+    private convertCondition(value: string): string {
+        return escapeAttribute(this.convertExpression(value.trim()));
+    }
+
     private convertInterpolation(text: string): string {
         // 转换文本中的插值表达式
         // MPX: {{ variable }} -> Vue: {{ variable }}
@@ -251,23 +853,157 @@ class MpxToVueConverter extends ASTTraverser {
         return text;
     }
 
+    // 没有内容的空元素输出为自闭合标签，纯空白文本不算内容
+    private isSelfClosingElement(node: ASTNode): boolean {
+        const hasContent = (node.children || []).some((child) => child.type !== "text" || child.content?.trim());
+        return !hasContent && (isTemplateInstance(node) || this.isSelfClosingTag(this.convertTagName(node.name || "")));
+    }
+
     private isSelfClosingTag(tagName: string): boolean {
         const selfClosingTags = ["img", "input", "br", "hr", "meta", "link", "area", "base", "col", "embed", "source", "track", "wbr"];
         return selfClosingTags.includes(tagName);
     }
 
-    private writeLine(content: string): void {
-        const indent = " ".repeat(this.indentLevel * this.indentSize);
-        this.output += indent + content + "\n";
+    // 去掉首尾空白后文本内容的起始位置
+    private getTrimmedPosition(node: ASTNode): SourcePosition | undefined {
+        if (!node.position) return undefined;
+
+        const content = node.content || "";
+        const leading = content.slice(0, content.length - content.trimStart().length);
+        const lines = leading.split("\n");
+        const lastLine = lines[lines.length - 1];
+
+        return {
+            ...node.position,
+            start: node.position.start + leading.length,
+            line: node.position.line + lines.length - 1,
+            column: lines.length > 1 ? lastLine.length + 1 : node.position.column + leading.length,
+        };
+    }
+
+    private writeIndent(): void {
+        this.writer.write(" ".repeat(this.indentLevel * this.indentSize));
+    }
+
+    private writeLine(content: string, position?: SourcePosition, verbatim: boolean = false): void {
+        this.writeIndent();
+        this.writer.write(content, position, verbatim);
+        this.writer.write("\n");
+    }
+}
+
+// <template is> 模板实例
+function isTemplateInstance(node: ASTNode): boolean {
+    return node.type === "element" && node.name === "template" && "is" in (node.attributes?.props || {});
+}
+
+/**
+ * <template name> 对应的 Vue 组件名
+ * @param name - 模板名
+ * @returns 组件名，如 msgItem => template-msgItem
+ */
+export function getTemplateComponentName(name: string): string {
+    return `template-${name}`;
+}
+
+/**
+ * 组件标签名对应的组件名，同时用作 script 中的变量名
+ * @param tag - 标签名
+ * @returns 组件名，如 nav-bar => NavBar
+ */
+export function getComponentName(tag: string): string {
+    const name = tag.replace(/(^|[-_])(\w)/g, (_, _separator, char: string) => char.toUpperCase()).replace(/[^\w$]/g, "_");
+    return /^\d/.test(name) ? `_${name}` : name;
+}
+
+// 将带插值的属性值转换为模板字符串，"/img/{{id}}.png" => `/img/${id}.png`
+function interpolationToTemplateLiteral(value: string): string {
+    const parts = splitInterpolation(value);
+    if (parts.length === 1 && parts[0].type === "expression") {
+        return parts[0].value;
+    }
+    const content = parts.map((part) => (part.type === "text" ? part.value.replace(/\\|`|\$\{/g, (match) => `\\${match}`) : `\${${part.value}}`));
+    return `\`${content.join("")}\``;
+}
+
+/**
+ * 生成属性代码，值包含插值时输出为 v-bind
+ * @param name - 属性名
+ * @param value - 属性值
+ * @returns 属性代码，布尔属性的值为 {{false}} 时返回空字符串
+ */
+function bindAttribute(name: string, value: string): string {
+    const isBoolean = booleanAttributes.includes(name);
+    if (!hasInterpolation(value)) {
+        return isBoolean ? name : `${name}="${value}"`;
+    }
+
+    const expression = interpolationToTemplateLiteral(value);
+    if (isBoolean && (expression === "true" || expression === "false")) {
+        return expression === "true" ? name : "";
     }
+    return `:${name}="${escapeAttribute(expression)}"`;
+}
+
+// 转义双引号，表达式可以放在双引号包裹的属性值中
+function escapeAttribute(value: string): string {
+    return value.replace(/"/g, "&quot;");
 }
 
 /**
  * 将 MPX 模板转换为 Vue 模板
  * @param ast - MPX 模板的 AST
+ * @param options - 转换选项
  * @returns Vue 模板字符串
  */
- export function convertMpxToVue(ast: ASTNode[]): string {
+export function convertMpxToVue(ast: ASTNode[], options: VueConvertOptions = {}): string {
+    return convertMpxToVueWithSourceMap(ast, options).code;
+}
+
+/**
+ * 将 <template name> 定义转换为 Vue 组件的模板
+ * 模板中使用的数据（wx:for 声明的变量除外）作为组件的 props
+ * @param definition - resolveTemplateImports 收集的模板定义
+ * @param options - 转换选项，template 默认为定义所在文件的源码
+ * @returns 组件名、props、Vue 模板和诊断信息
+ */
+export function convertTemplateDefinition(definition: TemplateDefinition, options: VueConvertOptions = {}): VueTemplateComponent {
+    // 模板可以使用所在文件中的 <wxs> 模块
+    const result = convertMpxToVueWithSourceMap([...definition.modules, ...definition.children], { template: definition.source, ...options });
+    const identifiers = new Set<string>();
+    const locals = new Set<string>();
+
+    new ASTTraverser().traverse(definition.children, {
+        enter: (node) => {
+            const directives = node.attributes?.directives || {};
+            if ("wx:for" in directives || "wx:for-items" in directives) {
+                locals.add(directives["wx:for-item"]?.value.trim() || "item");
+                locals.add(directives["wx:for-index"]?.value.trim() || "index");
+            }
+        },
+        expression: (expression) => {
+            for (const part of expression.parts) {
+                if (part.type === "dynamic" && part.expression) {
+                    collectIdentifiers(part.expression).forEach((name) => identifiers.add(name));
+                }
+            }
+        },
+    });
+
+    return {
+        ...result,
+        name: getTemplateComponentName(definition.name),
+        props: [...identifiers].filter((name) => !locals.has(name) && !result.wxsModules.some((module) => module.name === name)),
+    };
+}
+
+/**
+ * 将 MPX 模板转换为 Vue 模板，同时生成指向 MPX 源码的 Source Map
+ * @param ast - MPX 模板的 AST
+ * @param options - Source Map 选项（offset 为模板在 .mpx 文件中的位置）、模板源码和诊断语言
+ * @returns Vue 模板字符串、Source Map 和转换过程中的诊断信息
+ */
+export function convertMpxToVueWithSourceMap(ast: ASTNode[], options: VueConvertOptions = {}): VueConvertResult {
     const converter = new MpxToVueConverter();
-    return converter.convertToVue(ast);
+    return converter.convertToVue(ast, options);
 }
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { createDiagnostic, formatDiagnostic, localizeDiagnostic, relocateDiagnostic } from "./diagnostics";
+import { MpxTemplateParser } from "./mpxTemplateParser";
+
+const source = "<view>\n  <text>a</view>";
+
+describe("diagnostics", () => {
+    it("createDiagnostic 计算行列号并生成相关位置和修复建议", () => {
+        const diagnostic = createDiagnostic(source, "unclosed-element", "error", { start: 9, end: 15 }, {
+            args: { tag: "text" },
+            related: [{ start: 0, end: 6, messageId: "note-open-tag", args: { tag: "view" } }],
+            fix: { start: 16, end: 16, messageId: "fix-insert", args: { text: "</text>" }, replacement: "</text>" },
+            locale: "en",
+        });
+        expect(diagnostic).toMatchObject({
+            code: "unclosed-element",
+            severity: "error",
+            message: "Element <text> is not closed and was closed implicitly",
+            line: 2,
+            column: 3,
+            endLine: 2,
+            endColumn: 9,
+        });
+        expect(diagnostic.related).toMatchObject([{ message: "Start tag of <view>", line: 1, column: 1 }]);
+        expect(diagnostic.fix).toMatchObject({ message: 'Insert "</text>"', replacement: "</text>" });
+    });
+
+    it("localizeDiagnostic 按参数重新生成指定语言的消息", () => {
+        const diagnostic = createDiagnostic(source, "stray-end-tag", "error", { start: 16, end: 23 }, { args: { tag: "view" } });
+        expect(diagnostic.message).toBe("多余的结束标签 </view>，已忽略");
+        expect(localizeDiagnostic(diagnostic, "en").message).toBe("Stray end tag </view> was ignored");
+    });
+
+    it("relocateDiagnostic 把块内位置换算到完整文件中", () => {
+        const file = `<template>\n${source}\n</template>`;
+        const diagnostic = createDiagnostic(source, "stray-end-tag", "error", { start: 16, end: 23 }, { args: { tag: "view" } });
+        expect(relocateDiagnostic(diagnostic, file, 11)).toMatchObject({ start: 27, end: 34, line: 3, column: 10, endLine: 3, endColumn: 17 });
+    });
+
+    it("formatDiagnostic 输出文件名、位置、级别和代码", () => {
+        const diagnostic = createDiagnostic(source, "stray-end-tag", "error", { start: 16, end: 23 }, { args: { tag: "view" } });
+        expect(formatDiagnostic(diagnostic, { fileName: "page.mpx", locale: "en" })).toBe("page.mpx:2:10 error stray-end-tag: Stray end tag </view> was ignored");
+    });
+
+    it("解析器返回结构化的诊断信息", () => {
+        const { errors } = new MpxTemplateParser(source, { locale: "en" }).parse();
+        expect(errors).toMatchObject([{ code: "unclosed-element", severity: "error", args: { tag: "text" }, line: 2, column: 3 }]);
+    });
+});
@@ -0,0 +1,309 @@
+import { Diagnostic, DiagnosticCode, DiagnosticLocale, DiagnosticMessageId, DiagnosticNoteId, DiagnosticSeverity } from "./types";
+
+type DiagnosticArgs = Record<string, string | number>;
+
+// 诊断信息文案，使用 {name} 作为参数占位符
+export const diagnosticMessages: Record<DiagnosticLocale, Record<DiagnosticMessageId, string>> = {
+    zh: {
+        "internal-error": "解析错误: {error}",
+        "expected-tag-name": "期望标签名",
+        "expected-tag-close": '<{tag}> 标签期望 ">"',
+        "unclosed-element": "元素 <{tag}> 未闭合，已隐式关闭",
+        "unclosed-comment": "注释未闭合",
+        "stray-end-tag": "多余的结束标签 </{tag}>，已忽略",
+        "invalid-expression": "表达式语法错误 {raw}: {error}",
+        "unclosed-block": "<{tag}> 块缺少结束标签",
+        "duplicate-block": "只能包含一个 <{tag}> 块，多余的块已忽略",
+        "invalid-json": "JSON 配置语法错误: {error}",
+        "json-missing-export": "未找到 module.exports 或 export default 导出的配置对象",
+        "json-type-mismatch": "配置项 {field} 应为 {expected} 类型",
+        "json-invalid-value": "配置项 {field} 的值必须是 {values} 之一",
+        "json-unknown-field": "未知的配置项 {field}",
+        "json-non-static-value": "无法静态求值的配置，已忽略",
+        "json-invalid-component-name": "组件名 {name} 不合法，应以小写字母开头且只包含小写字母、数字、下划线和连字符",
+        "invalid-script": "脚本语法错误，已原样输出: {error}",
+        "unbalanced-style-brace": "样式中的花括号不匹配",
+        "style-unsupported-selector": "Web 平台不支持选择器 {selector}",
+        "style-platform-import": "{statement} 引入了小程序平台的样式文件，Web 平台需要改为 .css",
+        "orphan-conditional": "{directive} 前面没有相邻的 wx:if 或 wx:elif",
+        "conditional-chain-text": "条件分支之间有文本，{directive} 无法与前面的 wx:if 相连",
+        "conditional-chain-comment": "条件分支之间的注释已移除",
+        "unsupported-block-attribute": "<block> 上的属性 {name} 没有效果，已忽略",
+        "event-approximated": "事件 {event} 在 Web 上没有对应事件，已近似转换为 {web}",
+        "unsupported-event-binding": "{name} 在 Web 上没有等价写法，已按 bind 处理",
+        "dynamic-event-handler": "事件处理函数 {value} 不是静态的方法名，已忽略",
+        "unknown-event-modifier": "不支持的事件修饰符 .{modifier}，已忽略",
+        "unsupported-component-attribute": "<{tag}> 的 {name} 属性在 Web 上没有对应实现，已忽略",
+        "dynamic-component-attribute": "<{tag}> 的 {name} 属性是动态值，无法静态转换",
+        "invalid-model-expression": "wx:model 的值 {value} 不是可以赋值的表达式",
+        "template-missing-attribute": "<{tag}> 缺少 {name} 属性",
+        "template-file-not-found": "找不到模板文件 {path}",
+        "template-file-error": "模板文件 {path} 第 {line} 行解析错误: {error}",
+        "circular-template-import": "模板文件循环引用: {chain}",
+        "duplicate-template": "模板 {name} 已在 {filename} 中定义，已忽略",
+        "unknown-template": "未定义的模板 {name}",
+        "unresolved-template-tag": "<{tag}> 需要先由 resolveTemplateImports 展开，已忽略",
+        "invalid-wxs-module": "WXS 模块名 {name} 不是合法的变量名",
+        "duplicate-wxs-module": "WXS 模块 {name} 重复定义，已忽略",
+        "unsupported-target-construct": "{target} 平台不支持 {name}",
+        "unsupported-target-event": "{name} 在 {target} 平台上不支持，已按 bind 处理",
+        "target-inline-script-unsupported": "{target} 平台的 <{tag}> 只能引用外部文件，内联脚本已移除",
+        "unknown-component": "<{tag}> 既不是内置组件，也没有在 usingComponents 中注册",
+        "unused-component": "usingComponents 中注册的组件 {tag} 没有在模板中使用",
+        "undeclared-binding": "模板中使用的 {name} 没有在 data、properties、computed 或 methods 中声明",
+        "undeclared-event-handler": "事件处理函数 {name} 没有在 methods 中声明",
+        "unused-binding": "{section} 中声明的 {name} 没有在模板和脚本中使用",
+        "unused-method": "方法 {name} 没有被模板中的事件绑定或脚本使用",
+        "script-lang-mismatch": "<script setup> 的语言 {setupLang} 与 <script> 的语言 {lang} 不一致，两个块都按 {lang} 输出",
+        "unsupported-lifetime": "生命周期 {name} 在 Web 上没有对应实现，已忽略",
+        "page-query-unavailable": "{hook} 转换为 created 后不会收到页面参数 {name}，需要改为从路由中读取",
+        "note-open-tag": "<{tag}> 的开始标签",
+        "note-first-block": "第一个块在这里",
+        "fix-insert": '插入 "{text}"',
+        "fix-replace": '替换为 "{text}"',
+        "fix-remove": '删除 "{text}"',
+    },
+    en: {
+        "internal-error": "Parse error: {error}",
+        "expected-tag-name": "Expected tag name",
+        "expected-tag-close": 'Expected ">" to close the <{tag}> tag',
+        "unclosed-element": "Element <{tag}> is not closed and was closed implicitly",
+        "unclosed-comment": "Comment is not closed",
+        "stray-end-tag": "Stray end tag </{tag}> was ignored",
+        "invalid-expression": "Invalid expression {raw}: {error}",
+        "unclosed-block": "The <{tag}> block is missing its end tag",
+        "duplicate-block": "Only one <{tag}> block is allowed; the extra block was ignored",
+        "invalid-json": "Invalid JSON config: {error}",
+        "json-missing-export": "No config object exported via module.exports or export default",
+        "json-type-mismatch": "Config field {field} should be of type {expected}",
+        "json-invalid-value": "Config field {field} must be one of {values}",
+        "json-unknown-field": "Unknown config field {field}",
+        "json-non-static-value": "Config value cannot be statically evaluated and was ignored",
+        "json-invalid-component-name":
+            "Invalid component name {name}; it must start with a lowercase letter and contain only lowercase letters, digits, underscores and hyphens",
+        "invalid-script": "Invalid script, emitted unchanged: {error}",
+        "unbalanced-style-brace": "Unbalanced braces in style",
+        "style-unsupported-selector": "Selector {selector} is not supported on the web",
+        "style-platform-import": "{statement} imports a mini-program style file; use a .css file for the web",
+        "orphan-conditional": "{directive} has no adjacent wx:if or wx:elif before it",
+        "conditional-chain-text": "Text between conditional branches detaches {directive} from the preceding wx:if",
+        "conditional-chain-comment": "Comment between conditional branches was removed",
+        "unsupported-block-attribute": "Attribute {name} has no effect on <block> and was ignored",
+        "event-approximated": "Event {event} has no web equivalent and was approximated with {web}",
+        "unsupported-event-binding": "{name} has no web equivalent and was treated as bind",
+        "dynamic-event-handler": "Event handler {value} is not a static method name and was ignored",
+        "unknown-event-modifier": "Unsupported event modifier .{modifier} was ignored",
+        "unsupported-component-attribute": "Attribute {name} of <{tag}> has no web equivalent and was ignored",
+        "dynamic-component-attribute": "Attribute {name} of <{tag}> has a dynamic value and cannot be converted statically",
+        "invalid-model-expression": "The wx:model value {value} is not an assignable expression",
+        "template-missing-attribute": "<{tag}> is missing the {name} attribute",
+        "template-file-not-found": "Template file {path} was not found",
+        "template-file-error": "Template file {path} has a parse error at line {line}: {error}",
+        "circular-template-import": "Circular template reference: {chain}",
+        "duplicate-template": "Template {name} is already defined in {filename} and was ignored",
+        "unknown-template": "Template {name} is not defined",
+        "unresolved-template-tag": "<{tag}> must be expanded by resolveTemplateImports first and was ignored",
+        "invalid-wxs-module": "WXS module name {name} is not a valid identifier",
+        "duplicate-wxs-module": "WXS module {name} is defined more than once; the duplicate was ignored",
+        "unsupported-target-construct": "{name} is not supported on {target}",
+        "unsupported-target-event": "{name} is not supported on {target} and was treated as bind",
+        "target-inline-script-unsupported": "<{tag}> on {target} can only reference an external file; the inline script was removed",
+        "unknown-component": "<{tag}> is neither a built-in component nor registered in usingComponents",
+        "unused-component": "Component {tag} is registered in usingComponents but never used in the template",
+        "undeclared-binding": "{name} is used in the template but not declared in data, properties, computed or methods",
+        "undeclared-event-handler": "Event handler {name} is not declared in methods",
+        "unused-binding": "{name} declared in {section} is never used in the template or script",
+        "unused-method": "Method {name} is not used by any event binding in the template or by the script",
+        "script-lang-mismatch": "<script setup> uses {setupLang} but <script> uses {lang}; both blocks are emitted as {lang}",
+        "unsupported-lifetime": "Lifetime {name} has no web equivalent and was ignored",
+        "page-query-unavailable": "{hook} becomes created and no longer receives the page query {name}; read it from the router instead",
+        "note-open-tag": "Start tag of <{tag}>",
+        "note-first-block": "The first block is here",
+        "fix-insert": 'Insert "{text}"',
+        "fix-replace": 'Replace with "{text}"',
+        "fix-remove": 'Remove "{text}"',
+    },
+};
+
+// 诊断信息的源码范围
+export interface DiagnosticRange {
+    start: number;
+    end: number;
+}
+
+// 创建诊断信息的可选参数
+export interface DiagnosticOptions {
+    args?: DiagnosticArgs;
+    related?: Array<DiagnosticRange & { messageId: DiagnosticNoteId; args?: DiagnosticArgs }>;
+    fix?: DiagnosticRange & { messageId: DiagnosticNoteId; args?: DiagnosticArgs; replacement: string };
+    locale?: DiagnosticLocale;
+}
+
+/**
+ * 根据字符偏移量计算行列号（均从 1 开始）
+ * @param source - 源码
+ * @param offset - 字符偏移量
+ * @returns 行号和列号
+ */
+export function getLineColumn(source: string, offset: number): { line: number; column: number } {
+    let line = 1;
+    let column = 1;
+    const end = Math.min(offset, source.length);
+
+    for (let i = 0; i < end; i++) {
+        if (source[i] === "\n") {
+            line++;
+            column = 1;
+        } else {
+            column++;
+        }
+    }
+
+    return { line, column };
+}
+
+/**
+ * 使用指定语言渲染诊断文案
+ * @param id - 诊断代码或附加说明的文案 ID
+ * @param args - 文案参数
+ * @param locale - 语言，默认中文
+ * @returns 渲染后的文案
+ */
+export function formatDiagnosticMessage(id: DiagnosticMessageId, args: DiagnosticArgs = {}, locale: DiagnosticLocale = "zh"): string {
+    const template = diagnosticMessages[locale][id] || id;
+    return template.replace(/\{(\w+)\}/g, (match, name) => (name in args ? String(args[name]) : match));
+}
+
+/**
+ * 创建诊断信息
+ * @param source - 诊断所在的源码，用于计算行列号
+ * @param code - 诊断代码
+ * @param severity - 严重程度
+ * @param range - 起止偏移量
+ * @param options - 文案参数、关联位置、修复建议和语言
+ * @returns 诊断信息
+ */
+export function createDiagnostic(
+    source: string,
+    code: DiagnosticCode,
+    severity: DiagnosticSeverity,
+    range: DiagnosticRange,
+    options: DiagnosticOptions = {}
+): Diagnostic {
+    const start = getLineColumn(source, range.start);
+    const end = getLineColumn(source, range.end);
+    const args = options.args || {};
+
+    const diagnostic: Diagnostic = {
+        code,
+        severity,
+        message: formatDiagnosticMessage(code, args, options.locale),
+        args,
+        start: range.start,
+        end: range.end,
+        line: start.line,
+        column: start.column,
+        endLine: end.line,
+        endColumn: end.column,
+    };
+
+    if (options.related && options.related.length > 0) {
+        diagnostic.related = options.related.map((item) => ({
+            messageId: item.messageId,
+            args: item.args || {},
+            message: formatDiagnosticMessage(item.messageId, item.args, options.locale),
+            start: item.start,
+            end: item.end,
+            ...getLineColumn(source, item.start),
+        }));
+    }
+
+    if (options.fix) {
+        const fix = options.fix;
+        diagnostic.fix = {
+            messageId: fix.messageId,
+            args: fix.args || {},
+            message: formatDiagnosticMessage(fix.messageId, fix.args, options.locale),
+            start: fix.start,
+            end: fix.end,
+            replacement: fix.replacement,
+        };
+    }
+
+    return diagnostic;
+}
+
+/**
+ * 切换诊断信息的语言
+ * @param diagnostic - 诊断信息
+ * @param locale - 目标语言
+ * @returns 新的诊断信息
+ */
+export function localizeDiagnostic(diagnostic: Diagnostic, locale: DiagnosticLocale): Diagnostic {
+    const localized: Diagnostic = {
+        ...diagnostic,
+        message: formatDiagnosticMessage(diagnostic.code, diagnostic.args, locale),
+    };
+
+    if (diagnostic.related) {
+        localized.related = diagnostic.related.map((item) => ({
+            ...item,
+            message: formatDiagnosticMessage(item.messageId, item.args, locale),
+        }));
+    }
+    if (diagnostic.fix) {
+        localized.fix = {
+            ...diagnostic.fix,
+            message: formatDiagnosticMessage(diagnostic.fix.messageId, diagnostic.fix.args, locale),
+        };
+    }
+
+    return localized;
+}
+
+/**
+ * 将块内的诊断信息换算到完整文件中的位置
+ * @param diagnostic - 以块内容为源码生成的诊断信息
+ * @param source - 完整文件内容
+ * @param offset - 块内容在文件中的偏移量
+ * @returns 新的诊断信息
+ */
+export function relocateDiagnostic(diagnostic: Diagnostic, source: string, offset: number): Diagnostic {
+    const start = getLineColumn(source, diagnostic.start + offset);
+    const end = getLineColumn(source, diagnostic.end + offset);
+    const relocated: Diagnostic = {
+        ...diagnostic,
+        start: diagnostic.start + offset,
+        end: diagnostic.end + offset,
+        line: start.line,
+        column: start.column,
+        endLine: end.line,
+        endColumn: end.column,
+    };
+
+    if (diagnostic.related) {
+        relocated.related = diagnostic.related.map((item) => ({
+            ...item,
+            start: item.start + offset,
+            end: item.end + offset,
+            ...getLineColumn(source, item.start + offset),
+        }));
+    }
+    if (diagnostic.fix) {
+        relocated.fix = { ...diagnostic.fix, start: diagnostic.fix.start + offset, end: diagnostic.fix.end + offset };
+    }
+
+    return relocated;
+}
+
+/**
+ * 将诊断信息格式化为单行文本，便于在控制台和 CI 日志中输出
+ * @param diagnostic - 诊断信息
+ * @param options - 语言和文件名
+ * @returns 格式化后的文本，如 "page.mpx:3:5 error stray-end-tag: ..."
+ */
+export function formatDiagnostic(diagnostic: Diagnostic, options: { locale?: DiagnosticLocale; fileName?: string } = {}): string {
+    const message = options.locale ? formatDiagnosticMessage(diagnostic.code, diagnostic.args, options.locale) : diagnostic.message;
+    const location = `${options.fileName ? `${options.fileName}:` : ""}${diagnostic.line}:${diagnostic.column}`;
+    return `${location} ${diagnostic.severity} ${diagnostic.code}: ${message}`;
+}
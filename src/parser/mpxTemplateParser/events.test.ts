@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { getWebEvent, parseEventBinding } from "./events";
+
+describe("parseEventBinding", () => {
+    it("带冒号时识别任意事件名", () => {
+        expect(parseEventBinding("bind:tap")).toEqual({ kind: "bind", event: "tap", modifiers: [] });
+        expect(parseEventBinding("catch:myevent")).toEqual({ kind: "catch", event: "myevent", modifiers: [] });
+        expect(parseEventBinding("capture-bind:touchstart.once")).toEqual({ kind: "capture-bind", event: "touchstart", modifiers: ["once"] });
+        expect(parseEventBinding("mut-bind:tap")).toEqual({ kind: "mut-bind", event: "tap", modifiers: [] });
+    });
+
+    it("不带冒号时只识别已知的事件名", () => {
+        expect(parseEventBinding("bindtap")).toEqual({ kind: "bind", event: "tap", modifiers: [] });
+        expect(parseEventBinding("catchlongpress")).toEqual({ kind: "catch", event: "longpress", modifiers: [] });
+        expect(parseEventBinding("binding")).toBeNull();
+        expect(parseEventBinding("bindData")).toBeNull();
+        expect(parseEventBinding("bindvalue")).toBeNull();
+        expect(parseEventBinding("capture-bindtap")).toBeNull();
+    });
+
+    it("Vue 的 @ 写法", () => {
+        expect(parseEventBinding("@click.stop")).toEqual({ kind: "vue", event: "click", modifiers: ["stop"] });
+        expect(parseEventBinding("@")).toBeNull();
+    });
+});
+
+describe("getWebEvent", () => {
+    it("switch / checkbox 的 change 取选中状态，其他组件使用通用映射", () => {
+        expect(getWebEvent("switch", "change")?.detail).toBe("{ value: $event.target.checked }");
+        expect(getWebEvent("checkbox", "change")?.detail).toBe("{ value: $event.target.checked }");
+        expect(getWebEvent("input", "change")?.detail).toBe("{ value: $event.target.value }");
+        expect(getWebEvent("view", "tap")?.name).toBe("click");
+    });
+});
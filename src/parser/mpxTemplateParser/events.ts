@@ -0,0 +1,167 @@
+// 事件绑定的写法
+export type EventBindingKind = "bind" | "catch" | "capture-bind" | "capture-catch" | "mut-bind" | "vue";
+
+// 解析后的事件绑定
+export interface EventBinding {
+    kind: EventBindingKind;
+    event: string; // 小程序事件名，如 tap
+    modifiers: string[]; // 属性名上以 "." 分隔的修饰符
+}
+
+// 小程序事件在 Web 上的对应
+export interface WebEvent {
+    name: string; // Web 事件名，可以带 Vue 修饰符，如 keyup.enter
+    detail?: string; // 构造小程序 event.detail 的表达式
+    approximate?: boolean; // 没有完全对应的 Web 事件，只是近似
+}
+
+// 不带冒号的 bindxxx / catchxxx 只识别这些事件名，其余以 bind / catch 开头的属性（如 binding、bindData）是普通属性
+const knownEvents = [
+    "tap",
+    "longpress",
+    "longtap",
+    "touchstart",
+    "touchmove",
+    "touchend",
+    "touchcancel",
+    "touchforcechange",
+    "transitionend",
+    "animationstart",
+    "animationiteration",
+    "animationend",
+    "input",
+    "confirm",
+    "focus",
+    "blur",
+    "change",
+    "changing",
+    "columnchange",
+    "linechange",
+    "keyboardheightchange",
+    "submit",
+    "reset",
+    "cancel",
+    "scroll",
+    "scrolltoupper",
+    "scrolltolower",
+    "refresherpulling",
+    "refresherrefresh",
+    "refresherrestore",
+    "refresherabort",
+    "dragstart",
+    "dragging",
+    "dragend",
+    "transition",
+    "animationfinish",
+    "load",
+    "error",
+    "play",
+    "pause",
+    "ended",
+    "timeupdate",
+    "waiting",
+    "progress",
+    "fullscreenchange",
+    "markertap",
+    "callouttap",
+    "controltap",
+    "regionchange",
+    "getuserinfo",
+    "getphonenumber",
+    "chooseavatar",
+    "contact",
+    "opensetting",
+    "launchapp",
+    "message",
+];
+
+const EVENT_BINDING = /^(capture-bind|capture-catch|mut-bind|bind|catch)(:?)([A-Za-z_][\w-]*)$/;
+
+// 表单元素的 detail.value 取自输入框的值
+const VALUE_DETAIL = "{ value: $event.target.value }";
+
+// 可选中的表单元素，detail.value 取自选中状态
+const CHECKED_DETAIL = "{ value: $event.target.checked }";
+
+// 转换为 <input type="checkbox"> 的可选中组件
+export const checkableTags = ["switch", "checkbox"];
+
+// 小程序事件到 Web 事件的映射，未列出的事件名保持不变
+export const eventMapping: Record<string, WebEvent> = {
+    tap: { name: "click", detail: "{ x: $event.pageX, y: $event.pageY }" },
+    longpress: { name: "contextmenu", approximate: true },
+    longtap: { name: "contextmenu", approximate: true },
+    touchstart: { name: "touchstart", detail: "{}" },
+    touchmove: { name: "touchmove", detail: "{}" },
+    touchend: { name: "touchend", detail: "{}" },
+    touchcancel: { name: "touchcancel", detail: "{}" },
+    input: { name: "input", detail: "{ value: $event.target.value, cursor: $event.target.selectionStart }" },
+    confirm: { name: "keyup.enter", detail: VALUE_DETAIL },
+    focus: { name: "focus", detail: VALUE_DETAIL },
+    blur: { name: "blur", detail: VALUE_DETAIL },
+    change: { name: "change", detail: VALUE_DETAIL },
+    submit: { name: "submit.prevent", detail: "{ value: {} }" },
+    reset: { name: "reset.prevent", detail: "{}" },
+    scroll: {
+        name: "scroll",
+        detail: "{ scrollTop: $event.target.scrollTop, scrollLeft: $event.target.scrollLeft, scrollHeight: $event.target.scrollHeight, scrollWidth: $event.target.scrollWidth }",
+    },
+    load: { name: "load", detail: "{ width: $event.target.naturalWidth, height: $event.target.naturalHeight }" },
+    error: { name: "error", detail: "{ errMsg: 'error' }" },
+};
+
+// 按组件覆盖的事件映射，优先于 eventMapping
+const componentEventMapping: Record<string, Record<string, WebEvent>> = {
+    switch: { change: { name: "change", detail: CHECKED_DETAIL } },
+    checkbox: { change: { name: "change", detail: CHECKED_DETAIL } },
+};
+
+/**
+ * 查找内置组件上的小程序事件对应的 Web 事件
+ * @param tag - 小程序组件名
+ * @param event - 小程序事件名
+ * @returns Web 事件，没有映射时返回 undefined
+ */
+export function getWebEvent(tag: string, event: string): WebEvent | undefined {
+    return componentEventMapping[tag]?.[event] || eventMapping[event];
+}
+
+// 绑定方式对应的 Vue 修饰符
+export const kindModifiers: Record<EventBindingKind, string[]> = {
+    bind: [],
+    catch: ["stop"],
+    "capture-bind": ["capture"],
+    "capture-catch": ["capture", "stop"],
+    "mut-bind": [],
+    vue: [],
+};
+
+// Vue 支持的事件修饰符
+export const vueEventModifiers = ["stop", "prevent", "capture", "self", "once", "passive"];
+
+/**
+ * 解析事件绑定属性名
+ * 支持 bindtap、bind:tap、catchtap、catch:tap、capture-bind:tap、capture-catch:tap、mut-bind:tap 和 @tap
+ * 不带冒号的写法只识别已知的小程序事件名
+ * @param name - 属性名，可以带 "." 分隔的修饰符
+ * @returns 事件绑定信息，不是事件绑定时返回 null
+ */
+export function parseEventBinding(name: string): EventBinding | null {
+    const [baseName, ...modifiers] = name.split(".");
+
+    if (baseName.startsWith("@")) {
+        const event = baseName.slice(1);
+        return event ? { kind: "vue", event, modifiers } : null;
+    }
+
+    const match = EVENT_BINDING.exec(baseName);
+    if (!match) {
+        return null;
+    }
+    // 带冒号时可以是任意事件名（包括自定义组件的事件），capture-bind 和 mut-bind 只支持带冒号的写法
+    if (!match[2] && ((match[1] !== "bind" && match[1] !== "catch") || !knownEvents.includes(match[3]))) {
+        return null;
+    }
+
+    return { kind: match[1] as EventBindingKind, event: match[3], modifiers };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { collectIdentifiers, parseTemplateExpression } from "./expressionParser";
+import { MustacheToken, TemplateToken } from "./types";
+
+// 构造从 start 开始的插值词法单元，模板只有一行
+function mustache(expression: string, start: number = 0): MustacheToken {
+    const raw = `{{${expression}}}`;
+    return { type: "mustache", raw, expression, position: { start, end: start + raw.length, line: 1, column: start + 1 } };
+}
+
+describe("parseTemplateExpression", () => {
+    it("拆分静态和动态部分，表达式位置对应模板源码", () => {
+        const tokens: TemplateToken[] = [{ type: "text", value: "a ", position: { start: 0, end: 2, line: 1, column: 1 } }, mustache(" b + 1 ", 2)];
+        const node = parseTemplateExpression(tokens);
+        expect(node.isStatic).toBe(false);
+        expect(node.parts.map((part) => part.type)).toEqual(["static", "dynamic"]);
+        const dynamic = node.parts[1];
+        expect(dynamic.type === "dynamic" && dynamic.expression?.start).toBe(5);
+    });
+
+    it("语法错误记录出错位置", () => {
+        const part = parseTemplateExpression([mustache("a +", 4)]).parts[0];
+        expect(part.type).toBe("dynamic");
+        if (part.type === "dynamic") {
+            expect(part.expression).toBeNull();
+            expect(part.error).toMatchObject({ start: 9, line: 1, column: 10 });
+            expect(part.error?.message).not.toMatch(/\(\d+:\d+\)$/);
+        }
+    });
+
+    it("对象字面量写法", () => {
+        const part = parseTemplateExpression([mustache("a: 1, ...b")], { objectLiteral: true }).parts[0];
+        expect(part.type === "dynamic" && part.expression?.type).toBe("ObjectExpression");
+    });
+});
+
+describe("collectIdentifiers", () => {
+    it("不包括成员属性名、对象键名和全局标识符", () => {
+        const part = parseTemplateExpression([mustache("{ a: b.c, [d]: e ? f[g] : undefined }")]).parts[0];
+        expect(part.type === "dynamic" && part.expression && collectIdentifiers(part.expression)).toEqual(["b", "d", "e", "f", "g"]);
+    });
+});
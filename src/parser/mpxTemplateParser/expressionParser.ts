@@ -0,0 +1,109 @@
+import { parseExpression } from "@babel/parser";
+import { Expression, Node, VISITOR_KEYS, isNode } from "@babel/types";
+import { DynamicPart, ExpressionNode, ExpressionPart, MustacheToken, TemplateToken } from "./types";
+
+// 表达式解析选项
+export interface TemplateExpressionOptions {
+    objectLiteral?: boolean; // 插值内容是省略了花括号的对象字面量
+}
+
+/**
+ * 将文本或属性值的词法单元转换为表达式节点
+ * @param tokens - 词法分析得到的文本/插值片段
+ * @param options - 解析选项
+ * @returns 拆分为静态和动态部分的表达式节点
+ */
+export function parseTemplateExpression(tokens: TemplateToken[], options: TemplateExpressionOptions = {}): ExpressionNode {
+    const parts: ExpressionPart[] = tokens.map((token) => {
+        if (token.type === "mustache") {
+            return parseMustache(token, options.objectLiteral);
+        }
+        return {
+            type: "static",
+            value: token.value,
+            position: { ...token.position },
+        };
+    });
+
+    return {
+        type: "expression",
+        parts,
+        isStatic: parts.every((part) => part.type === "static"),
+    };
+}
+
+// Babel 解析失败时抛出的语法错误
+type BabelSyntaxError = SyntaxError & { loc?: { line: number; column: number; index: number } };
+
+/**
+ * 使用 Babel 解析单个插值表达式
+ * 通过 startIndex/startLine/startColumn 让表达式 AST 的位置直接对应模板源码
+ * @param token - 插值表达式片段
+ * @param objectLiteral - 是否按省略了花括号的对象字面量解析，补上的花括号占用 "{{" 和 "}}" 内侧的位置
+ * @returns 动态部分，解析失败时记录错误信息
+ */
+function parseMustache(token: MustacheToken, objectLiteral: boolean = false): DynamicPart {
+    const part: DynamicPart = {
+        type: "dynamic",
+        raw: token.raw,
+        source: token.expression.trim(),
+        expression: null,
+        position: { ...token.position },
+    };
+
+    try {
+        const offset = objectLiteral ? 1 : 2;
+        part.expression = parseExpression(objectLiteral ? `{${token.expression}}` : token.expression, {
+            startIndex: token.position.start + offset,
+            startLine: token.position.line,
+            startColumn: token.position.column - 1 + offset,
+        });
+    } catch (error) {
+        // Babel 的语法错误带有出错位置 loc
+        const loc = error instanceof SyntaxError ? (error as BabelSyntaxError).loc : undefined;
+        part.error = {
+            message: (error instanceof Error ? error.message : String(error)).replace(/\s*\(\d+:\d+\)$/, ""),
+            start: loc ? loc.index : token.position.start,
+            line: loc ? loc.line : token.position.line,
+            column: loc ? loc.column + 1 : token.position.column,
+        };
+    }
+
+    return part;
+}
+
+// 不属于数据的全局标识符
+const globalIdentifiers = ["undefined", "NaN", "Infinity"];
+
+/**
+ * 收集表达式中引用的标识符，不包括成员访问的属性名和对象字面量的键名
+ * @param expression - Babel 表达式 AST
+ * @returns 去重后的标识符名称
+ */
+export function collectIdentifiers(expression: Expression): string[] {
+    const names = new Set<string>();
+
+    const visit = (node: Node, parent: Node | null, key: string): void => {
+        if (node.type === "Identifier") {
+            const isMemberProperty =
+                (parent?.type === "MemberExpression" || parent?.type === "OptionalMemberExpression") && key === "property" && !parent.computed;
+            const isObjectKey = parent?.type === "ObjectProperty" && key === "key" && !parent.computed;
+            if (!isMemberProperty && !isObjectKey && !globalIdentifiers.includes(node.name)) {
+                names.add(node.name);
+            }
+            return;
+        }
+
+        for (const childKey of VISITOR_KEYS[node.type] || []) {
+            const child: unknown = node[childKey as keyof Node];
+            for (const item of Array.isArray(child) ? child : [child]) {
+                if (isNode(item)) {
+                    visit(item, node, childKey);
+                }
+            }
+        }
+    };
+
+    visit(expression, null, "");
+    return [...names];
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { VueConvertOptions, convertMpxToVueWithSourceMap } from "./convertToVue";
+import { applyAttributeRule, resolveMappingProfile } from "./mappingProfiles";
+import { MpxTemplateParser } from "./mpxTemplateParser";
+
+const template = `<view hover-class="h" bindtap="a"><text>x</text></view>`;
+
+function convert(options: VueConvertOptions) {
+    const { ast } = new MpxTemplateParser(template).parse();
+    return convertMpxToVueWithSourceMap(ast, { template, ...options }).code;
+}
+
+describe("mappingProfiles", () => {
+    it("合并使用方的标签规则，未知配置名抛出错误", () => {
+        const profile = resolveMappingProfile("html", { text: { tag: "p", attributes: { space: false } } });
+        expect(profile.tags.text).toMatchObject({ tag: "p", attributes: { space: false } });
+        expect(profile.tags.view.tag).toBe("div");
+        expect(resolveMappingProfile("html").tags.text.tag).toBe("span");
+        expect(() => resolveMappingProfile("unknown" as "html")).toThrow("Unknown mapping profile: unknown");
+    });
+
+    it("标签属性规则优先于全局属性规则", () => {
+        const profile = resolveMappingProfile("html", { view: { attributes: { "hover-class": { name: "class", value: (value) => `${value}-on` } } } });
+        expect(applyAttributeRule(profile, "view", "hover-class", "h")).toEqual({ name: "class", value: "h-on" });
+        expect(applyAttributeRule(profile, "text", "hover-class", "h")).toBeNull();
+        expect(applyAttributeRule(profile, "text", "id", "a")).toEqual({ name: "id", value: "a" });
+    });
+
+    it("按配置转换标签、属性和事件", () => {
+        expect(convert({ profile: "html" })).toMatch(/^<div @click="a\(.*\)">\n {2}<span>/);
+        expect(convert({ profile: "mpx-web" })).toBe(`<mpx-view hover-class="h" @tap="a">\n  <mpx-text>\n    x\n  </mpx-text>\n</mpx-view>`);
+        expect(convert({ profile: "mini-program" })).toBe(`<view hover-class="h" @tap="a">\n  <text>\n    x\n  </text>\n</view>`);
+    });
+
+    it("标签规则可以添加属性和包裹子节点", () => {
+        const code = convert({
+            profile: "mini-program",
+            tagRules: { text: { tag: "p", addAttributes: { "data-t": "1" } }, view: { wrapChildren: { tag: "section", attributes: { class: "w" } } } },
+        });
+        expect(code).toBe(`<view hover-class="h" @tap="a">\n  <section class="w">\n    <p data-t="1">\n      x\n    </p>\n  </section>\n</view>`);
+    });
+});
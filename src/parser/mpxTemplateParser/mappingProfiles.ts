@@ -0,0 +1,128 @@
+/**
+ * 属性转换规则
+ * - 字符串：重命名属性
+ * - false：删除属性
+ * - 对象：重命名并改写属性值
+ */
+export type AttributeRule = string | false | { name?: string; value?: (value: string) => string };
+
+// 单个标签的转换规则
+export interface TagRule {
+    tag?: string; // 转换后的标签名
+    attributes?: Record<string, AttributeRule>; // 该标签上的属性规则，优先于 profile 的全局属性规则
+    addAttributes?: Record<string, string>; // 额外添加的静态属性
+    wrapChildren?: { tag: string; attributes?: Record<string, string> }; // 用指定元素包裹子节点
+}
+
+// 标签/属性映射配置
+export interface MappingProfile {
+    name: string;
+    tags: Record<string, TagRule>;
+    attributes?: Record<string, AttributeRule>; // 所有标签共用的属性规则
+    native?: boolean; // 内置组件是否转换为原生元素，是则需要转换组件属性，事件需要转换为 DOM 事件
+}
+
+export type MappingProfileName = "html" | "mpx-web" | "mini-program";
+
+// MPX 到 Vue 标签转换映射
+export const defaultTagMapping: Record<string, string> = {
+    view: "div",
+    text: "span",
+    image: "img",
+    navigator: "router-link",
+    button: "button",
+    input: "input",
+    textarea: "textarea",
+    "scroll-view": "div",
+    swiper: "div",
+    "swiper-item": "div",
+    picker: "select",
+    "picker-view": "div",
+    slider: "input",
+    switch: "input",
+    checkbox: "input",
+    radio: "input",
+    form: "form",
+    label: "label",
+};
+
+// 转换为原生 HTML 元素，没有对应 Web 实现的属性直接删除
+const htmlProfile: MappingProfile = {
+    name: "html",
+    native: true,
+    tags: Object.fromEntries(Object.entries(defaultTagMapping).map(([name, tag]) => [name, { tag }])),
+    attributes: {
+        "hover-class": false,
+        "hover-start-time": false,
+        "hover-stay-time": false,
+        "hover-stop-propagation": false,
+    },
+};
+
+// 转换为 Mpx Web 组件库中的同名组件（mpx-view、mpx-scroll-view 等），属性由组件实现
+const mpxWebProfile: MappingProfile = {
+    name: "mpx-web",
+    tags: Object.fromEntries(Object.keys(defaultTagMapping).map((name) => [name, { tag: `mpx-${name}` }])),
+};
+
+// 保留小程序标签，由使用方注册同名的 Vue 组件
+const miniProgramProfile: MappingProfile = {
+    name: "mini-program",
+    tags: {},
+};
+
+export const mappingProfiles: Record<MappingProfileName, MappingProfile> = {
+    html: htmlProfile,
+    "mpx-web": mpxWebProfile,
+    "mini-program": miniProgramProfile,
+};
+
+/**
+ * 获取映射配置，并合并使用方提供的标签规则
+ * @param profile - 内置配置名或自定义配置，默认 html
+ * @param tagRules - 按标签名覆盖的规则，与内置规则逐项合并
+ * @returns 合并后的映射配置
+ */
+export function resolveMappingProfile(profile: MappingProfileName | MappingProfile = "html", tagRules: Record<string, TagRule> = {}): MappingProfile {
+    const base = typeof profile === "string" ? mappingProfiles[profile] : profile;
+    if (!base) {
+        throw new Error(`Unknown mapping profile: ${profile}`);
+    }
+
+    const tags: Record<string, TagRule> = { ...base.tags };
+    for (const [name, rule] of Object.entries(tagRules)) {
+        const existing = tags[name] || {};
+        tags[name] = {
+            ...existing,
+            ...rule,
+            attributes: { ...existing.attributes, ...rule.attributes },
+            addAttributes: { ...existing.addAttributes, ...rule.addAttributes },
+        };
+    }
+
+    return { ...base, tags };
+}
+
+/**
+ * 按规则转换属性
+ * @param profile - 映射配置
+ * @param tag - 小程序标签名
+ * @param name - 属性名
+ * @param value - 属性值
+ * @returns 转换后的属性名和值，属性被删除时返回 null
+ */
+export function applyAttributeRule(profile: MappingProfile, tag: string, name: string, value: string): { name: string; value: string } | null {
+    const tagAttributes = profile.tags[tag]?.attributes || {};
+    const rule = name in tagAttributes ? tagAttributes[name] : profile.attributes?.[name];
+
+    if (rule === undefined) {
+        return { name, value };
+    }
+    if (rule === false) {
+        return null;
+    }
+    if (typeof rule === "string") {
+        return { name: rule, value };
+    }
+    return { name: rule.name || name, value: rule.value ? rule.value(value) : value };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { MpxTemplateParser } from "./mpxTemplateParser";
+import { MpxSyntaxParser } from "./syntaxParser";
+import { MustacheToken } from "./types";
+
+function parse(template: string) {
+    return new MpxTemplateParser(template).parse();
+}
+
+describe("MpxTemplateParser", () => {
+    describe("插值词法单元", () => {
+        it("文本插值中的 < 和 > 不会结束文本", () => {
+            const { ast, errors } = parse("<view>{{ a < b ? x : y }}</view>");
+            expect(errors).toEqual([]);
+            expect(ast[0].children).toHaveLength(1);
+
+            const token = ast[0].children![0].tokens![0] as MustacheToken;
+            expect(token.type).toBe("mustache");
+            expect(token.expression).toBe(" a < b ? x : y ");
+            expect(token.position).toMatchObject({ start: 6, end: 25, line: 1, column: 7 });
+        });
+
+        it("无引号属性值中的 > 属于插值", () => {
+            const { ast, errors } = parse("<view hidden={{count>1}}>x</view>");
+            expect(errors).toEqual([]);
+            expect(ast[0].attributes!.props.hidden).toBe("{{count>1}}");
+            expect(ast[0].children![0].content).toBe("x");
+        });
+
+        it("插值中字符串和对象字面量的花括号不会提前结束插值", () => {
+            const { ast } = parse(`<view class="{{ {a: {b: '}}'}} }}"/>`);
+            const tokens = ast[0].attributes!.attributesAll[0].tokens as MustacheToken[];
+            expect(tokens).toHaveLength(1);
+            expect(tokens[0].raw).toBe(`{{ {a: {b: '}}'}} }}`);
+        });
+    });
+
+    describe("插值表达式", () => {
+        it("使用 Babel 解析表达式并报告语法错误", () => {
+            const { ast, errors } = parse("<view>{{ a + }}</view>");
+            expect(errors.map((error) => error.code)).toEqual(["invalid-expression"]);
+            const part = ast[0].children![0].expression!.parts[0];
+            expect(part.type === "dynamic" && part.expression).toBeNull();
+        });
+
+        it("MpxSyntaxParser 只拆分插值，不解析表达式", () => {
+            const { ast, errors } = new MpxSyntaxParser("<view>a {{ b + }}</view>").parse();
+            expect(errors).toEqual([]);
+            const parts = ast[0].children![0].expression!.parts;
+            expect(parts).toMatchObject([
+                { type: "static", value: "a " },
+                { type: "dynamic", raw: "{{ b + }}", source: "b +", expression: null },
+            ]);
+        });
+    });
+
+    describe("错误恢复", () => {
+        it("隐式关闭未闭合的元素，继续解析后续内容", () => {
+            const { ast, errors } = parse("<view><text>a</view><view>b</view>");
+            expect(errors.map((error) => error.code)).toEqual(["unclosed-element"]);
+            expect(ast.map((node) => node.name)).toEqual(["view", "view"]);
+            expect(ast[0].children![0]).toMatchObject({ name: "text", recovered: true });
+            expect(ast[1].children![0].content).toBe("b");
+        });
+
+        it("跳过多余的结束标签", () => {
+            const { ast, errors } = parse("<view>a</span>b</view>");
+            expect(errors.map((error) => error.code)).toEqual(["stray-end-tag"]);
+            expect(ast[0].children!.filter((node) => node.type === "text").map((node) => node.content)).toEqual(["a", "b"]);
+        });
+
+        it("开始标签缺少 > 时仍返回元素和子节点", () => {
+            const { ast, errors } = parse(`<view class="a"<text>x</text></view>`);
+            expect(errors.map((error) => error.code)).toEqual(["expected-tag-close"]);
+            expect(ast[0]).toMatchObject({ name: "view", recovered: true });
+            expect(ast[0].children![0]).toMatchObject({ name: "text" });
+        });
+
+        it("模板提前结束时关闭所有未闭合的元素", () => {
+            const { ast, errors } = parse(`<view><text class="a"`);
+            expect(errors.map((error) => error.code)).toEqual(["expected-tag-close", "unclosed-element", "unclosed-element"]);
+            expect(ast[0].children![0]).toMatchObject({ name: "text", recovered: true });
+        });
+    });
+});
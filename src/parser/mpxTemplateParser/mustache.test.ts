@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { findMustacheEnd, getMustacheExpression, hasInterpolation, splitInterpolation, splitOutsideInterpolation } from "./mustache";
+
+describe("mustache", () => {
+    it("findMustacheEnd 跳过嵌套花括号和字符串", () => {
+        const value = "{{ {a: {b: '}}'}} }}!";
+        expect(findMustacheEnd(value, 0)).toBe(value.length - 1);
+        expect(findMustacheEnd("{{ a", 0)).toBe(-1);
+    });
+
+    it("splitInterpolation 按插值拆分文本和表达式", () => {
+        expect(splitInterpolation("a-{{ {x: {y: 1}} }}-b")).toEqual([
+            { type: "text", value: "a-" },
+            { type: "expression", value: "{x: {y: 1}}" },
+            { type: "text", value: "-b" },
+        ]);
+        expect(splitInterpolation("{{ {active: isActive}}}")).toEqual([{ type: "expression", value: "{active: isActive}" }]);
+    });
+
+    it("未闭合的插值作为文本", () => {
+        expect(splitInterpolation("a {{ b")).toEqual([{ type: "text", value: "a {{ b" }]);
+        expect(hasInterpolation("a {{ b")).toBe(false);
+    });
+
+    it("getMustacheExpression 只接受整个值是单个插值的情况", () => {
+        expect(getMustacheExpression(" {{ {a: {b: 1}} }} ")).toBe("{a: {b: 1}}");
+        expect(getMustacheExpression("{{a}}-{{b}}")).toBeNull();
+        expect(getMustacheExpression("a{{b}}")).toBeNull();
+    });
+
+    it("splitOutsideInterpolation 不拆分插值内的分隔符", () => {
+        expect(splitOutsideInterpolation("x {{ {a: 'p q'} }} y", /\s/)).toEqual(["x", "{{ {a: 'p q'} }}", "y"]);
+    });
+});
@@ -0,0 +1,127 @@
+// 插值拆分后的片段，expression 为花括号内去除首尾空白的表达式源码
+export interface InterpolationPart {
+    type: "text" | "expression";
+    value: string;
+}
+
+/**
+ * 查找与 "{{" 匹配的 "}}"，跳过字符串字面量和对象字面量中的花括号
+ * @param input - 源码
+ * @param start - "{{" 的位置
+ * @returns "}}" 之后的位置，未闭合时返回 -1
+ */
+export function findMustacheEnd(input: string, start: number): number {
+    let index = start + 2;
+    let depth = 0;
+    let quote = "";
+
+    while (index < input.length) {
+        const char = input[index];
+
+        if (quote) {
+            if (char === "\\") {
+                index += 2;
+                continue;
+            }
+            if (char === quote) {
+                quote = "";
+            }
+        } else if (char === '"' || char === "'" || char === "`") {
+            quote = char;
+        } else if (char === "{") {
+            depth++;
+        } else if (char === "}") {
+            if (depth === 0 && input[index + 1] === "}") {
+                return index + 2;
+            }
+            if (depth > 0) {
+                depth--;
+            }
+        }
+        index++;
+    }
+
+    return -1;
+}
+
+/**
+ * 按插值拆分属性值，与模板解析器使用相同的规则，未闭合的 "{{" 作为普通文本
+ * @param value - 属性值
+ * @returns 文本和表达式片段
+ */
+export function splitInterpolation(value: string): InterpolationPart[] {
+    const parts: InterpolationPart[] = [];
+    let text = "";
+    let index = 0;
+
+    while (index < value.length) {
+        const end = value.startsWith("{{", index) ? findMustacheEnd(value, index) : -1;
+        if (end < 0) {
+            text += value[index++];
+            continue;
+        }
+        if (text) {
+            parts.push({ type: "text", value: text });
+            text = "";
+        }
+        parts.push({ type: "expression", value: value.slice(index + 2, end - 2).trim() });
+        index = end;
+    }
+    if (text) {
+        parts.push({ type: "text", value: text });
+    }
+    return parts;
+}
+
+// 是否包含闭合的插值
+export function hasInterpolation(value: string): boolean {
+    return splitInterpolation(value).some((part) => part.type === "expression");
+}
+
+// 将带插值的属性值转换为表达式，"a-{{b}}" => 'a-' + (b)
+export function interpolationToExpression(value: string): string {
+    const parts = splitInterpolation(value);
+    if (parts.length === 1 && parts[0].type === "expression") {
+        return parts[0].value;
+    }
+    return parts.map((part) => (part.type === "text" ? toStringLiteral(part.value) : `(${part.value})`)).join(" + ");
+}
+
+// 生成单引号字符串字面量，用于双引号包裹的属性值中
+export function toStringLiteral(value: string): string {
+    return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+// 整个值（忽略首尾空白）是单个插值时返回其中的表达式，否则返回 null
+export function getMustacheExpression(value: string): string | null {
+    const parts = splitInterpolation(value.trim());
+    return parts.length === 1 && parts[0].type === "expression" ? parts[0].value : null;
+}
+
+/**
+ * 按分隔符拆分属性值，插值内部的分隔符不拆分
+ * @param value - 属性值
+ * @param separator - 匹配单个分隔字符的正则
+ * @returns 拆分后的片段
+ */
+export function splitOutsideInterpolation(value: string, separator: RegExp): string[] {
+    const segments: string[] = [];
+    let current = "";
+    let index = 0;
+
+    while (index < value.length) {
+        const end = value.startsWith("{{", index) ? findMustacheEnd(value, index) : -1;
+        if (end >= 0) {
+            current += value.slice(index, end);
+            index = end;
+        } else if (separator.test(value[index])) {
+            segments.push(current);
+            current = "";
+            index++;
+        } else {
+            current += value[index++];
+        }
+    }
+    segments.push(current);
+    return segments;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { MpxSyntaxParser } from "./syntaxParser";
+import { printTemplate, setAttribute } from "./printer";
+
+function parse(template: string) {
+    return new MpxSyntaxParser(template).parse().ast;
+}
+
+describe("printTemplate", () => {
+    it("未修改的 AST 逐字节还原源码", () => {
+        const template = `<!-- 注释 -->
+<view  class='a'   hidden data-x="" disabled>
+    <image src="{{ src }}"/>
+    <text  >{{ a < b }} x</text >
+    <wxs module="m">var a = "<view>";</wxs>
+</view>
+<input value=a>`;
+        expect(printTemplate(parse(template))).toBe(template);
+    });
+
+    it("错误恢复后的 AST 同样逐字节还原源码", () => {
+        const template = "<view><text>a</span></view><view";
+        expect(printTemplate(parse(template))).toBe(template);
+    });
+
+    it("修改属性只改变对应片段，保留引号风格和自闭合写法", () => {
+        const ast = parse(`<view  class='a' id="x"><image src="b"  /></view>`);
+        setAttribute(ast[0], "class", "b");
+        setAttribute(ast[0].children![0], "wx:ref", "img");
+        expect(printTemplate(ast)).toBe(`<view  class='b' id="x"><image src="b" wx:ref="img"  /></view>`);
+    });
+});
@@ -0,0 +1,115 @@
+import { getDirectiveKind, isDirectiveName } from "./attributes";
+import { CodeWithSourceMap, SourceMapOptions, SourceMapWriter } from "./sourceMap";
+import { ASTNode, Attribute } from "./types";
+
+/**
+ * 将 AST 打印回模板字符串
+ * 未修改的节点和属性按原文输出，因此未经修改的 AST 可以逐字节还原源码
+ * @param ast - MPX 模板的 AST 节点数组
+ * @returns 模板字符串
+ */
+export function printTemplate(ast: ASTNode[]): string {
+    return printTemplateWithSourceMap(ast).code;
+}
+
+/**
+ * 将 AST 打印回模板字符串，同时生成指向原模板的 Source Map
+ * @param ast - MPX 模板的 AST 节点数组
+ * @param options - Source Map 选项
+ * @returns 模板字符串和 Source Map
+ */
+export function printTemplateWithSourceMap(ast: ASTNode[], options: SourceMapOptions = {}): CodeWithSourceMap {
+    const writer = new SourceMapWriter(options);
+    for (const node of ast) {
+        printNode(node, writer);
+    }
+    return { code: writer.getCode(), map: writer.toSourceMap() };
+}
+
+/**
+ * 设置元素属性，已存在时保留原有位置、前导空白和引号风格
+ * @param node - 元素节点
+ * @param name - 属性名
+ * @param value - 属性值
+ */
+export function setAttribute(node: ASTNode, name: string, value: string): void {
+    const attributes = node.attributes || (node.attributes = {});
+    const all: Attribute[] = attributes.attributesAll || (attributes.attributesAll = []);
+    const index = all.findIndex((attr) => attr.name === name);
+    const isDirective = isDirectiveName(name);
+
+    const attr: Attribute = {
+        ...(index >= 0 ? all[index] : { leading: " ", quote: '"' as const }),
+        name,
+        value,
+        isDirective,
+        directive: isDirective ? { name, value, kind: getDirectiveKind(name), modifiers: [] } : undefined,
+        hasValue: true,
+        raw: undefined,
+        rawValue: undefined,
+        tokens: undefined,
+        expression: undefined,
+    };
+
+    if (index >= 0) {
+        all[index] = attr;
+    } else {
+        all.push(attr);
+    }
+
+    const group = isDirective ? "directives" : "props";
+    attributes[group] = {
+        ...attributes[group],
+        [name]: isDirective ? { value, kind: getDirectiveKind(name), modifiers: [] } : value,
+    };
+}
+
+// 打印单个节点
+function printNode(node: ASTNode, writer: SourceMapWriter): void {
+    switch (node.type) {
+        case "element":
+            printStartTag(node, writer);
+            for (const child of node.children || []) {
+                printNode(child, writer);
+            }
+            writer.write(node.endTag || "", node.endTagPosition);
+            break;
+        case "comment":
+            writer.write(`${node.startTag ?? "<!--"}${node.content || ""}${node.endTag ?? ""}`, node.position, true);
+            break;
+        case "text":
+        case "invalid":
+            writer.write(node.content || "", node.position, true);
+            break;
+    }
+}
+
+// 打印开始标签，属性按 attributesAll 的顺序输出
+function printStartTag(node: ASTNode, writer: SourceMapWriter): void {
+    const attributes: Attribute[] = node.attributes?.attributesAll || [];
+    writer.write(`<${node.name}`, node.position);
+    for (const attr of attributes) {
+        writer.write(attr.leading ?? " ");
+        writer.write(printAttribute(attr), attr.raw !== undefined ? attr.position : undefined, true);
+    }
+    writer.write(`${node.tagTrailing || ""}${node.tagClose ?? (node.selfClosing ? "/>" : ">")}`);
+}
+
+// 打印属性，修改过的属性沿用原有引号风格重新生成
+function printAttribute(attr: Attribute): string {
+    if (attr.raw !== undefined) {
+        return attr.raw;
+    }
+    if (attr.hasValue === false) {
+        return attr.name;
+    }
+
+    let quote = attr.quote ?? '"';
+    if (!quote && !/^[^\s"'=<>`\/]+$/.test(attr.value)) {
+        quote = '"';
+    }
+    if (quote && attr.value.includes(quote)) {
+        quote = quote === '"' ? "'" : '"';
+    }
+    return `${attr.name}=${quote}${attr.value}${quote}`;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { convertMpxToVueWithSourceMap } from "./convertToVue";
+import { convertMpxToMiniProgram } from "./convertToMiniProgram";
+import { MpxTemplateParser } from "./mpxTemplateParser";
+import { SourceMapWriter, decodeVLQ, encodeVLQ, originalPositionFor } from "./sourceMap";
+
+const template = `<view>\n  <text wx:if="{{a}}">{{msg}}</text>\n</view>`;
+
+describe("sourceMap", () => {
+    it("VLQ 编码和解码互逆", () => {
+        const values = [0, 1, -1, 15, 16, -16, 1024, -123456];
+        expect(decodeVLQ(values.map(encodeVLQ).join(""))).toEqual(values);
+    });
+
+    it("SourceMapWriter 记录每段输出对应的原始位置", () => {
+        const writer = new SourceMapWriter({ source: "a.mpx" });
+        writer.write("<div>", { line: 1, column: 1 });
+        writer.write("\n  ");
+        writer.write("a\nb", { line: 2, column: 3 }, true);
+        const map = writer.toSourceMap();
+        expect(writer.getCode()).toBe("<div>\n  a\nb");
+        expect(map.sources).toEqual(["a.mpx"]);
+        expect(originalPositionFor(map, 1, 0)).toEqual({ source: "a.mpx", line: 1, column: 0 });
+        expect(originalPositionFor(map, 2, 2)).toEqual({ source: "a.mpx", line: 2, column: 2 });
+        expect(originalPositionFor(map, 3, 0)).toEqual({ source: "a.mpx", line: 3, column: 0 });
+    });
+
+    it("转换为 Vue 模板时元素、指令和插值映射回 .mpx 文件", () => {
+        const { ast } = new MpxTemplateParser(template).parse();
+        // 模板内容从 .mpx 文件第 3 行第 11 列开始
+        const { code, map } = convertMpxToVueWithSourceMap(ast, { template, source: "a.mpx", offset: { line: 3, column: 11 } });
+        expect(code.split("\n")[1]).toBe(`  <span v-if="a">`);
+        expect(originalPositionFor(map, 1, 0)).toEqual({ source: "a.mpx", line: 3, column: 10 });
+        expect(originalPositionFor(map, 2, 2)).toEqual({ source: "a.mpx", line: 4, column: 2 });
+        expect(originalPositionFor(map, 2, 8)).toEqual({ source: "a.mpx", line: 4, column: 8 });
+        expect(originalPositionFor(map, 3, 4)).toEqual({ source: "a.mpx", line: 4, column: 22 });
+    });
+
+    it("转换为其他小程序平台时保持原有位置", () => {
+        const { ast } = new MpxTemplateParser(template).parse();
+        const { code, map } = convertMpxToMiniProgram(ast, { target: "ali", template });
+        expect(code).toContain(`a:if="{{a}}"`);
+        expect(originalPositionFor(map, 2, 2)).toMatchObject({ line: 2, column: 2 });
+    });
+});
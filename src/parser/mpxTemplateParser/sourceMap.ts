@@ -0,0 +1,272 @@
+import { SourcePosition } from "./types";
+
+// V3 Source Map
+export interface SourceMapV3 {
+    version: 3;
+    file?: string;
+    sources: string[];
+    sourcesContent?: string[];
+    names: string[];
+    mappings: string;
+}
+
+// 生成 Source Map 的选项
+export interface SourceMapOptions {
+    source?: string; // 源文件名，默认 "template.mpx"
+    sourceContent?: string; // 源文件内容，写入 sourcesContent
+    file?: string; // 生成文件名
+    // 模板内容第一个字符在 .mpx 文件中的位置（行列从 1 开始），用于把模板内的位置换算到 .mpx 文件
+    offset?: { line: number; column: number };
+}
+
+// 带 Source Map 的生成结果
+export interface CodeWithSourceMap {
+    code: string;
+    map: SourceMapV3;
+}
+
+// 原始位置，行列从 1 开始，与 ASTNode.position 一致
+type OriginalLocation = Pick<SourcePosition, "line" | "column">;
+
+interface Mapping {
+    generatedLine: number; // 从 1 开始
+    generatedColumn: number; // 从 0 开始
+    originalLine: number; // 从 1 开始
+    originalColumn: number; // 从 0 开始
+}
+
+const BASE64_CHARS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * Base64 VLQ 编码
+ * @param value - 整数
+ * @returns 编码结果
+ */
+export function encodeVLQ(value: number): string {
+    let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+    let result = "";
+
+    do {
+        let digit = vlq & 31;
+        vlq >>>= 5;
+        if (vlq > 0) {
+            digit |= 32;
+        }
+        result += BASE64_CHARS[digit];
+    } while (vlq > 0);
+
+    return result;
+}
+
+/**
+ * Base64 VLQ 解码
+ * @param segment - 单个 mappings 片段，如 "AAAA"
+ * @returns 解码后的整数数组
+ */
+export function decodeVLQ(segment: string): number[] {
+    const values: number[] = [];
+    let shift = 0;
+    let value = 0;
+
+    for (const char of segment) {
+        const digit = BASE64_CHARS.indexOf(char);
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+            shift += 5;
+        } else {
+            values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+            value = 0;
+            shift = 0;
+        }
+    }
+
+    return values;
+}
+
+// 代码输出器：记录每段输出对应的原始位置，最终生成 Source Map
+export class SourceMapWriter {
+    private code: string = "";
+    private line: number = 1;
+    private column: number = 0;
+    private mappings: Mapping[] = [];
+    private options: SourceMapOptions;
+
+    constructor(options: SourceMapOptions = {}) {
+        this.options = options;
+    }
+
+    /**
+     * 输出一段代码
+     * @param text - 代码
+     * @param original - 这段代码对应的模板位置
+     * @param verbatim - 是否按原文复制，是则为其中每一行的行首都添加映射
+     */
+    write(text: string, original?: OriginalLocation, verbatim: boolean = false): void {
+        if (original && text) {
+            this.addMapping(original);
+        }
+
+        let originalLine = original ? original.line : 0;
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === "\n") {
+                this.line++;
+                this.column = 0;
+                originalLine++;
+                if (original && verbatim && i + 1 < text.length) {
+                    this.addMapping({ line: originalLine, column: 1 });
+                }
+            } else {
+                this.column++;
+            }
+        }
+
+        this.code += text;
+    }
+
+    /**
+     * 输出一段已有 Source Map 的代码，映射按当前输出位置平移后合并
+     * map 中的原始位置应已换算到同一个源文件，不再应用 offset
+     * @param text - 代码
+     * @param map - 这段代码的 Source Map
+     */
+    writeWithSourceMap(text: string, map: SourceMapV3): void {
+        for (const mapping of decodeMappings(map.mappings)) {
+            this.mappings.push({
+                ...mapping,
+                generatedLine: this.line + mapping.generatedLine - 1,
+                generatedColumn: mapping.generatedLine === 1 ? this.column + mapping.generatedColumn : mapping.generatedColumn,
+            });
+        }
+        this.write(text);
+    }
+
+    // 获取已输出的代码
+    getCode(): string {
+        return this.code;
+    }
+
+    // 去掉末尾空白，映射不受影响
+    trimEnd(): void {
+        this.code = this.code.trimEnd();
+    }
+
+    // 生成 V3 Source Map
+    toSourceMap(): SourceMapV3 {
+        // 每个生成行一组片段，生成列在每行重新计数，其余字段在整个文件内累计
+        const lines: string[] = [];
+        let previousGeneratedColumn = 0;
+        let previousOriginalLine = 0;
+        let previousOriginalColumn = 0;
+
+        for (const mapping of this.mappings) {
+            if (lines.length < mapping.generatedLine) {
+                while (lines.length < mapping.generatedLine) {
+                    lines.push("");
+                }
+                previousGeneratedColumn = 0;
+            }
+
+            const segment =
+                encodeVLQ(mapping.generatedColumn - previousGeneratedColumn) +
+                encodeVLQ(0) +
+                encodeVLQ(mapping.originalLine - 1 - previousOriginalLine) +
+                encodeVLQ(mapping.originalColumn - previousOriginalColumn);
+
+            const index = mapping.generatedLine - 1;
+            lines[index] = lines[index] ? `${lines[index]},${segment}` : segment;
+
+            previousGeneratedColumn = mapping.generatedColumn;
+            previousOriginalLine = mapping.originalLine - 1;
+            previousOriginalColumn = mapping.originalColumn;
+        }
+
+        const map: SourceMapV3 = {
+            version: 3,
+            sources: [this.options.source || "template.mpx"],
+            names: [],
+            mappings: lines.join(";"),
+        };
+        if (this.options.file) {
+            map.file = this.options.file;
+        }
+        if (this.options.sourceContent !== undefined) {
+            map.sourcesContent = [this.options.sourceContent];
+        }
+        return map;
+    }
+
+    // 添加映射，模板内位置按 offset 换算为 .mpx 文件中的位置
+    private addMapping(original: OriginalLocation): void {
+        const offset = this.options.offset || { line: 1, column: 1 };
+        const line = offset.line + original.line - 1;
+        const column = original.line === 1 ? offset.column + original.column - 1 : original.column;
+
+        const last = this.mappings[this.mappings.length - 1];
+        if (last && last.generatedLine === this.line && last.generatedColumn === this.column) {
+            return;
+        }
+
+        this.mappings.push({
+            generatedLine: this.line,
+            generatedColumn: this.column,
+            originalLine: line,
+            originalColumn: column - 1,
+        });
+    }
+}
+
+// 解码 mappings，返回绝对位置的映射（只支持单个源文件）
+function decodeMappings(mappings: string): Mapping[] {
+    const result: Mapping[] = [];
+    let originalLine = 0;
+    let originalColumn = 0;
+
+    mappings.split(";").forEach((line, index) => {
+        let generatedColumn = 0;
+        for (const segment of line.split(",")) {
+            if (!segment) continue;
+            const values = decodeVLQ(segment);
+            generatedColumn += values[0];
+            if (values.length < 4) continue;
+            originalLine += values[2];
+            originalColumn += values[3];
+            result.push({ generatedLine: index + 1, generatedColumn, originalLine: originalLine + 1, originalColumn });
+        }
+    });
+
+    return result;
+}
+
+/**
+ * 查询生成代码中某个位置对应的原始位置
+ * @param map - Source Map
+ * @param line - 生成代码的行号，从 1 开始
+ * @param column - 生成代码的列号，从 0 开始
+ * @returns 原始位置（行从 1 开始，列从 0 开始），没有映射时返回 null
+ */
+export function originalPositionFor(map: SourceMapV3, line: number, column: number): { source: string; line: number; column: number } | null {
+    const lines = map.mappings.split(";");
+    let sourceIndex = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+    let result: { source: string; line: number; column: number } | null = null;
+
+    for (let i = 0; i < lines.length && i < line; i++) {
+        let generatedColumn = 0;
+        for (const segment of lines[i].split(",")) {
+            if (!segment) continue;
+            const values = decodeVLQ(segment);
+            generatedColumn += values[0];
+            if (values.length < 4) continue;
+            sourceIndex += values[1];
+            originalLine += values[2];
+            originalColumn += values[3];
+
+            if (i === line - 1 && generatedColumn <= column) {
+                result = { source: map.sources[sourceIndex], line: originalLine + 1, column: originalColumn };
+            }
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,724 @@
+
+import { createDirective, groupAttributes, isDirectiveName } from "./attributes";
+import { DiagnosticOptions, createDiagnostic } from "./diagnostics";
+import { getElementModes, parseAttributeModes } from "./conditionalCompilation";
+import type { TemplateExpressionOptions } from "./expressionParser";
+import { findMustacheEnd } from "./mustache";
+import {
+    ASTNode,
+    Attribute,
+    Diagnostic,
+    DiagnosticCode,
+    DiagnosticLocale,
+    Directive,
+    ExpressionNode,
+    ExpressionPart,
+    MustacheToken,
+    ParseResult,
+    TemplateToken,
+} from "./types";
+
+
+
+// 词法分析器
+class Lexer {
+    private input: string;
+    private position: number = 0;
+    private line: number = 1;
+    private column: number = 1;
+
+    constructor(input: string) {
+        this.input = input;
+    }
+
+    current(): string {
+        return this.input[this.position] || "";
+    }
+
+    peek(offset: number = 1): string {
+        return this.input[this.position + offset] || "";
+    }
+
+    advance(): string {
+        const char = this.current();
+        this.position++;
+        if (char === "\n") {
+            this.line++;
+            this.column = 1;
+        } else {
+            this.column++;
+        }
+        return char;
+    }
+
+    skipWhitespace(): void {
+        while (/\s/.test(this.current())) {
+            this.advance();
+        }
+    }
+
+    getPosition() {
+        return {
+            position: this.position,
+            line: this.line,
+            column: this.column,
+        };
+    }
+
+    isEOF(): boolean {
+        return this.position >= this.input.length;
+    }
+
+    match(pattern: RegExp): RegExpMatchArray | null {
+        const remaining = this.input.slice(this.position);
+        return remaining.match(pattern);
+    }
+
+    // 检查是否位于插值表达式 "{{" 开头
+    isMustacheStart(): boolean {
+        return this.current() === "{" && this.peek() === "{";
+    }
+
+    // 读取完整的插值表达式，表达式内的 "<"、">" 和引号不会影响外层解析
+    // 未闭合时返回 null，且不移动当前位置
+    readMustache(): MustacheToken | null {
+        if (!this.isMustacheStart()) {
+            return null;
+        }
+
+        const end = this.findMustacheEnd();
+        if (end < 0) {
+            return null;
+        }
+
+        const startPos = this.getPosition();
+        let raw = "";
+        while (this.position < end) {
+            raw += this.advance();
+        }
+
+        return {
+            type: "mustache",
+            raw,
+            expression: raw.slice(2, -2),
+            position: {
+                start: startPos.position,
+                end: this.position,
+                line: startPos.line,
+                column: startPos.column,
+            },
+        };
+    }
+
+    // 查找与当前 "{{" 匹配的 "}}"，跳过字符串字面量和对象字面量中的花括号
+    private findMustacheEnd(): number {
+        return findMustacheEnd(this.input, this.position);
+    }
+}
+
+// 没有子节点的空元素，允许省略结束标签
+const voidElements = ["import", "include", "input", "img", "br", "hr", "meta", "link"];
+
+// 内容为原始文本的元素，内容中的 "<" 和 "{{" 不做解析
+export const rawTextElements = ["wxs"];
+
+/**
+ * MPX 模板语法解析器
+ * 解析元素、属性、文本和插值的结构，插值只拆分出表达式源码，不做语法分析，不依赖 Babel
+ * 只需要处理模板结构的场景（如 addRef）使用此解析器，需要表达式 AST 时使用 MpxTemplateParser
+ */
+export class MpxSyntaxParser {
+    private lexer: Lexer;
+    private source: string;
+    private locale: DiagnosticLocale;
+    private errors: Diagnostic[] = [];
+    private warnings: Diagnostic[] = [];
+    private recoveredNodes: ASTNode[] = [];
+    private openElements: string[] = []; // 尚未闭合的元素标签名栈
+
+    constructor(template: string, options: { locale?: DiagnosticLocale } = {}) {
+        this.source = template;
+        this.locale = options.locale || "zh";
+        this.lexer = new Lexer(template);
+    }
+
+    // 解析模板
+    parse(): ParseResult {
+        const ast: ASTNode[] = [];
+        this.errors = [];
+        this.warnings = [];
+        this.recoveredNodes = [];
+        this.openElements = [];
+
+        try {
+            while (!this.lexer.isEOF()) {
+                // 顶层的结束标签没有对应的开始标签，跳过
+                if (this.isEndTagStart()) {
+                    ast.push(this.skipStrayEndTag());
+                    continue;
+                }
+
+                const node = this.parseNode();
+                if (node) {
+                    ast.push(node);
+                }
+            }
+        } catch (error) {
+            this.addError("internal-error", { args: { error: String(error) } });
+        }
+
+        return {
+            ast,
+            errors: this.errors,
+            warnings: this.warnings,
+            recoveredNodes: this.recoveredNodes,
+        };
+    }
+
+    // 解析节点
+    private parseNode(): ASTNode | null {
+        if (this.isTagStart()) {
+            return this.parseElement();
+        } else {
+            return this.parseText();
+        }
+    }
+
+    // 解析元素
+    private parseElement(): ASTNode | null {
+        const startPos = this.lexer.getPosition();
+
+        if (!this.consumeChar("<")) {
+            return null;
+        }
+
+        // 检查是否是注释
+        if (this.lexer.current() === "!" && this.lexer.peek() === "-" && this.lexer.peek(2) === "-") {
+            return this.parseComment(startPos);
+        }
+
+        // 解析标签名，isTagStart 已保证标签名存在
+        const tagName = this.parseTagName()!;
+        let tagClose = "";
+
+        // 解析属性
+        const { attributes, trailing } = this.parseAttributes(tagName);
+
+        // 检查自闭合标签
+        let isSelfClosing = false;
+        if (this.lexer.current() === "/" && this.lexer.peek() === ">") {
+            isSelfClosing = true;
+            this.lexer.advance(); // 跳过 '/'
+        }
+
+        // 缺少 ">" 时视为开始标签在此结束，继续解析后续内容
+        let missingTagClose = false;
+        if (this.consumeChar(">")) {
+            tagClose = isSelfClosing ? "/>" : ">";
+        } else {
+            const offset = this.lexer.getPosition().position;
+            this.addError("expected-tag-close", {
+                args: { tag: tagName },
+                fix: { messageId: "fix-insert", args: { text: ">" }, start: offset, end: offset, replacement: ">" },
+            });
+            missingTagClose = true;
+        }
+
+        const element: ASTNode = {
+            type: "element",
+            name: tagName,
+            attributes: groupAttributes(attributes),
+            modes: getElementModes(attributes),
+            children: [],
+            startTag: this.source.slice(startPos.position, this.lexer.getPosition().position),
+            selfClosing: isSelfClosing,
+            tagTrailing: trailing,
+            tagClose,
+            position: {
+                start: startPos.position,
+                end: this.lexer.getPosition().position,
+                line: startPos.line,
+                column: startPos.column,
+            },
+        };
+
+        if (missingTagClose) {
+            this.markRecovered(element);
+        }
+
+        // 如果不是自闭合标签，解析子节点
+        if (isSelfClosing) {
+            return element;
+        }
+
+        // 空元素可以省略结束标签，只有后面紧跟同名结束标签时才继续解析
+        if (voidElements.includes(tagName) && this.peekEndTagName(true) !== tagName) {
+            return element;
+        }
+
+        if (rawTextElements.includes(tagName)) {
+            this.parseRawText(element, tagName);
+        }
+        this.parseChildren(element, tagName);
+
+        return element;
+    }
+
+    // 读取原始文本元素的内容，直到对应的结束标签
+    private parseRawText(element: ASTNode, tagName: string): void {
+        const startPos = this.lexer.getPosition();
+        const endTag = new RegExp(`^</${tagName}\\s*>`);
+        let text = "";
+
+        while (!this.lexer.isEOF() && !(this.lexer.current() === "<" && this.lexer.match(endTag))) {
+            text += this.lexer.advance();
+        }
+        if (!text) {
+            return;
+        }
+
+        const position = {
+            start: startPos.position,
+            end: this.lexer.getPosition().position,
+            line: startPos.line,
+            column: startPos.column,
+        };
+        const tokens: TemplateToken[] = [{ type: "text", value: text, position: { ...position } }];
+        element.children!.push({ type: "text", content: text, tokens, expression: this.parseExpression(tokens), position });
+    }
+
+    // 解析注释
+    private parseComment(startPos: ReturnType<Lexer["getPosition"]>): ASTNode {
+        let content = "";
+        let closed = false;
+
+        // 跳过 '<!--'
+        this.lexer.advance(); // '!'
+        this.lexer.advance(); // '-'
+        this.lexer.advance(); // '-'
+
+        while (!this.lexer.isEOF()) {
+            if (this.lexer.current() === "-" && this.lexer.peek() === "-" && this.lexer.peek(2) === ">") {
+                // 找到注释结束
+                this.lexer.advance(); // '-'
+                this.lexer.advance(); // '-'
+                this.lexer.advance(); // '>'
+                closed = true;
+                break;
+            }
+            content += this.lexer.advance();
+        }
+
+        const comment: ASTNode = {
+            type: "comment",
+            content,
+            startTag: "<!--",
+            endTag: closed ? "-->" : undefined,
+            position: {
+                start: startPos.position,
+                end: this.lexer.getPosition().position,
+                line: startPos.line,
+                column: startPos.column,
+            },
+        };
+
+        if (!closed) {
+            const offset = this.lexer.getPosition().position;
+            this.addError("unclosed-comment", {
+                start: startPos.position,
+                end: offset,
+                fix: { messageId: "fix-insert", args: { text: "-->" }, start: offset, end: offset, replacement: "-->" },
+            });
+            this.markRecovered(comment);
+        }
+
+        return comment;
+    }
+
+    // 解析文本节点
+    private parseText(): ASTNode | null {
+        const startPos = this.lexer.getPosition();
+        const tokens: TemplateToken[] = [];
+        let text = "";
+
+        while (!this.lexer.isEOF() && !this.isTagStart() && !this.isEndTagStart()) {
+            const mustache = this.lexer.readMustache();
+            if (mustache) {
+                tokens.push(mustache);
+                text += mustache.raw;
+            } else {
+                if (this.lexer.current() === "<") {
+                    // 不构成标签的 "<" 按普通文本处理
+                    this.addError("expected-tag-name", { start: this.lexer.getPosition().position + 1 });
+                }
+                text += this.readTextChar(tokens);
+            }
+        }
+
+        // 保留纯空白文本，以便无损打印
+        if (text) {
+            return {
+                type: "text",
+                content: text,
+                tokens,
+                expression: this.parseExpression(tokens),
+                position: {
+                    start: startPos.position,
+                    end: this.lexer.getPosition().position,
+                    line: startPos.line,
+                    column: startPos.column,
+                },
+            };
+        }
+
+        return null;
+    }
+
+    // 解析标签名
+    private parseTagName(): string | null {
+        let tagName = "";
+        while (!this.lexer.isEOF() && /[a-zA-Z0-9\-_]/.test(this.lexer.current())) {
+            tagName += this.lexer.advance();
+        }
+        return tagName || null;
+    }
+
+    // 解析属性
+    // trailing 为最后一个属性与 ">" 之间的空白
+    private parseAttributes(tagName: string): { attributes: Attribute[]; trailing: string } {
+        const attributes: Attribute[] = [];
+        let trailing = "";
+
+        while (!this.lexer.isEOF()) {
+            const whitespaceStart = this.lexer.getPosition().position;
+            this.lexer.skipWhitespace();
+            const whitespace = this.source.slice(whitespaceStart, this.lexer.getPosition().position);
+
+            if (this.lexer.current() === ">" || this.lexer.current() === "/") {
+                trailing = whitespace;
+                break;
+            }
+
+            const attr = this.parseAttribute(tagName);
+            if (attr) {
+                attr.leading = whitespace;
+                attributes.push(attr);
+            } else {
+                trailing = whitespace;
+                break;
+            }
+        }
+
+        return { attributes, trailing };
+    }
+
+    // 解析单个属性
+    private parseAttribute(tagName: string): Attribute | null {
+        const startPos = this.lexer.getPosition();
+        const name = this.parseAttributeName();
+        if (!name) {
+            return null;
+        }
+
+        let value = "";
+        let quote: Attribute["quote"] = "";
+        let rawValue = "";
+        const hasValue = !!this.lexer.match(/^\s*=/);
+        const tokens: TemplateToken[] = [];
+        if (hasValue) {
+            this.lexer.skipWhitespace();
+            this.lexer.advance(); // 跳过 '='
+            this.lexer.skipWhitespace();
+            const current = this.lexer.current();
+            quote = current === '"' || current === "'" ? current : "";
+            const valueStart = this.lexer.getPosition().position + quote.length;
+            value = this.parseAttributeValue(tokens) || "";
+            let valueEnd = this.lexer.getPosition().position;
+            if (quote && valueEnd > valueStart && this.source[valueEnd - 1] === quote) {
+                valueEnd--; // 不包含结束引号
+            }
+            rawValue = this.source.slice(valueStart, valueEnd);
+        }
+        const endPosition = this.lexer.getPosition().position;
+
+        // <template is> 的 data 是省略了花括号的对象字面量，如 data="{{...item, index}}"
+        const expression = this.parseExpression(tokens, { objectLiteral: tagName === "template" && name === "data" });
+
+        // 条件编译：@wx|ali 标记元素所属的平台，class@wx|ali 标记属性所属的平台
+        const { baseName, modes, marker } = parseAttributeModes(name);
+
+        // 检查是否是指令
+        const isDirective = !marker && isDirectiveName(baseName);
+        let directive: Directive | undefined;
+
+        if (isDirective) {
+            directive = createDirective(baseName, value);
+            directive.expression = expression;
+        }
+
+        return {
+            name,
+            value,
+            isDirective,
+            directive,
+            modes,
+            tokens,
+            expression,
+            raw: this.source.slice(startPos.position, endPosition),
+            rawValue,
+            quote,
+            hasValue,
+            position: {
+                start: startPos.position,
+                end: endPosition,
+                line: startPos.line,
+                column: startPos.column,
+            },
+        };
+    }
+
+    // 解析属性名
+    private parseAttributeName(): string | null {
+        let name = "";
+        while (!this.lexer.isEOF() && /[a-zA-Z0-9\-_:@.|]/.test(this.lexer.current())) {
+            name += this.lexer.advance();
+        }
+        return name || null;
+    }
+
+    // 解析属性值
+    private parseAttributeValue(tokens: TemplateToken[]): string | null {
+        if (this.lexer.current() === '"') {
+            return this.parseQuotedString('"', tokens);
+        } else if (this.lexer.current() === "'") {
+            return this.parseQuotedString("'", tokens);
+        } else {
+            // 无引号的属性值，插值表达式中的 ">" 不会结束属性值
+            let value = "";
+            while (!this.lexer.isEOF() && !/[\s>\/]/.test(this.lexer.current())) {
+                const mustache = this.lexer.readMustache();
+                if (mustache) {
+                    tokens.push(mustache);
+                    value += mustache.raw;
+                } else {
+                    value += this.readTextChar(tokens);
+                }
+            }
+            return value || null;
+        }
+    }
+
+    // 解析带引号的字符串
+    private parseQuotedString(quote: string, tokens: TemplateToken[]): string {
+        this.lexer.advance(); // 跳过开始引号
+        let value = "";
+
+        while (!this.lexer.isEOF() && this.lexer.current() !== quote) {
+            const mustache = this.lexer.readMustache();
+            if (mustache) {
+                tokens.push(mustache);
+                value += mustache.raw;
+            } else if (this.lexer.current() === "\\") {
+                this.lexer.advance(); // 跳过反斜杠
+                if (!this.lexer.isEOF()) {
+                    value += this.readTextChar(tokens); // 添加转义字符
+                }
+            } else {
+                value += this.readTextChar(tokens);
+            }
+        }
+
+        if (this.lexer.current() === quote) {
+            this.lexer.advance(); // 跳过结束引号
+        }
+
+        return value;
+    }
+
+    // 解析子节点
+    private parseChildren(element: ASTNode, tagName: string): void {
+        this.openElements.push(tagName);
+
+        while (!this.lexer.isEOF()) {
+            // 检查是否是结束标签
+            if (this.isEndTagStart()) {
+                const endTagName = this.peekEndTagName();
+                if (endTagName === tagName) {
+                    const endTagStart = this.lexer.getPosition();
+                    this.parseEndTag();
+                    const endTagEnd = this.lexer.getPosition().position;
+                    element.endTag = this.source.slice(endTagStart.position, endTagEnd);
+                    element.endTagPosition = {
+                        start: endTagStart.position,
+                        end: endTagEnd,
+                        line: endTagStart.line,
+                        column: endTagStart.column,
+                    };
+                    this.openElements.pop();
+                    return;
+                }
+
+                if (endTagName && this.openElements.includes(endTagName)) {
+                    // 结束标签属于外层元素：隐式关闭当前元素，由外层消费该结束标签
+                    this.reportUnclosedElement(element, tagName);
+                    this.openElements.pop();
+                    return;
+                }
+
+                // 没有对应开始标签的结束标签，跳过
+                element.children!.push(this.skipStrayEndTag(element));
+                continue;
+            }
+
+            const child = this.parseNode();
+            if (child) {
+                element.children!.push(child);
+            }
+        }
+
+        // 到达文件末尾仍未闭合
+        this.reportUnclosedElement(element, tagName);
+        this.openElements.pop();
+    }
+
+    // 报告未闭合的元素，并在当前位置插入结束标签作为修复建议
+    private reportUnclosedElement(element: ASTNode, tagName: string): void {
+        const openTag = element.position!;
+        const offset = this.lexer.getPosition().position;
+        const replacement = `</${tagName}>`;
+        this.addError("unclosed-element", {
+            start: openTag.start,
+            end: openTag.end,
+            args: { tag: tagName },
+            fix: { messageId: "fix-insert", args: { text: replacement }, start: offset, end: offset, replacement },
+        });
+        this.markRecovered(element);
+    }
+
+    // 跳过没有对应开始标签的结束标签，返回保留其原文的 invalid 节点
+    private skipStrayEndTag(parent?: ASTNode): ASTNode {
+        const startPos = this.lexer.getPosition();
+        const start = startPos.position;
+        const endTagName = this.parseEndTag();
+        const end = this.lexer.getPosition().position;
+        const related = parent
+            ? [{ messageId: "note-open-tag" as const, args: { tag: parent.name! }, start: parent.position!.start, end: parent.position!.end }]
+            : [];
+
+        this.addError("stray-end-tag", {
+            start,
+            end,
+            args: { tag: endTagName || "" },
+            related,
+            fix: { messageId: "fix-remove", args: { text: this.source.slice(start, end) }, start, end, replacement: "" },
+        });
+
+        const node: ASTNode = {
+            type: "invalid",
+            content: this.source.slice(start, end),
+            position: { start, end, line: startPos.line, column: startPos.column },
+        };
+        this.markRecovered(node);
+        return node;
+    }
+
+    // 解析结束标签
+    private parseEndTag(): string | null {
+        if (!this.consumeChar("<") || !this.consumeChar("/")) {
+            return null;
+        }
+
+        const tagName = this.parseTagName();
+        this.lexer.skipWhitespace();
+        if (!this.consumeChar(">")) {
+            const offset = this.lexer.getPosition().position;
+            this.addError("expected-tag-close", {
+                args: { tag: tagName || "" },
+                fix: { messageId: "fix-insert", args: { text: ">" }, start: offset, end: offset, replacement: ">" },
+            });
+        }
+
+        return tagName;
+    }
+
+    // 检查当前位置是否是开始标签或注释
+    private isTagStart(): boolean {
+        if (this.lexer.current() !== "<") {
+            return false;
+        }
+        const next = this.lexer.peek();
+        return /[a-zA-Z]/.test(next) || (next === "!" && this.lexer.peek(2) === "-" && this.lexer.peek(3) === "-");
+    }
+
+    // 检查当前位置是否是结束标签
+    private isEndTagStart(): boolean {
+        return this.lexer.current() === "<" && this.lexer.peek() === "/";
+    }
+
+    // 预读结束标签名，不移动当前位置
+    private peekEndTagName(skipWhitespace: boolean = false): string | null {
+        const match = this.lexer.match(skipWhitespace ? /^\s*<\/([a-zA-Z0-9\-_]*)/ : /^<\/([a-zA-Z0-9\-_]*)/);
+        return match ? match[1] : null;
+    }
+
+    // 标记经过错误恢复得到的节点
+    private markRecovered(node: ASTNode): void {
+        if (!node.recovered) {
+            node.recovered = true;
+            this.recoveredNodes.push(node);
+        }
+    }
+
+    // 将词法单元转换为表达式节点，插值部分不解析表达式，子类可以覆盖
+    protected parseExpression(tokens: TemplateToken[], _options: TemplateExpressionOptions = {}): ExpressionNode {
+        const parts: ExpressionPart[] = tokens.map((token) =>
+            token.type === "mustache"
+                ? { type: "dynamic", raw: token.raw, source: token.expression.trim(), expression: null, position: { ...token.position } }
+                : { type: "static", value: token.value, position: { ...token.position } }
+        );
+        return { type: "expression", parts, isStatic: parts.every((part) => part.type === "static") };
+    }
+
+    // 读取一个普通字符，并合并到末尾的文本片段中
+    private readTextChar(tokens: TemplateToken[]): string {
+        const startPos = this.lexer.getPosition();
+        const char = this.lexer.advance();
+        const endPosition = this.lexer.getPosition().position;
+        const last = tokens[tokens.length - 1];
+
+        if (last && last.type === "text") {
+            last.value += char;
+            last.position.end = endPosition;
+        } else {
+            tokens.push({
+                type: "text",
+                value: char,
+                position: {
+                    start: startPos.position,
+                    end: endPosition,
+                    line: startPos.line,
+                    column: startPos.column,
+                },
+            });
+        }
+
+        return char;
+    }
+
+    // 消费字符
+    private consumeChar(expected: string): boolean {
+        if (this.lexer.current() === expected) {
+            this.lexer.advance();
+            return true;
+        }
+        return false;
+    }
+
+    // 添加错误
+    // 未指定范围时使用当前位置
+    protected addError(code: DiagnosticCode, options: DiagnosticOptions & { start?: number; end?: number } = {}): void {
+        const start = options.start ?? this.lexer.getPosition().position;
+        const end = options.end ?? start;
+        this.errors.push(createDiagnostic(this.source, code, "error", { start, end }, { ...options, locale: this.locale }));
+    }
+}
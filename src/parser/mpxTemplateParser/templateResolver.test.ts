@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { convertMpxToVueWithSourceMap, convertTemplateDefinition } from "./convertToVue";
+import { MpxTemplateParser } from "./mpxTemplateParser";
+import { printTemplate } from "./printer";
+import { resolveTemplateImports, resolveTemplatePath } from "./templateResolver";
+
+const files: Record<string, string> = {
+    "/pages/common/header.wxml": `<view class="header">{{title}}</view>`,
+    "/pages/common/item.wxml": `<template name="item"><text>{{name}}</text><include src="./header.wxml"/></template><view>outside</view>`,
+    "/pages/a/loop1.wxml": `<include src="./loop2.wxml"/>`,
+    "/pages/a/loop2.wxml": `<include src="./loop1.wxml"/>`,
+};
+
+function resolve(template: string) {
+    const { ast } = new MpxTemplateParser(template).parse();
+    return resolveTemplateImports(ast, { loadFile: (path) => files[path], filename: "/pages/a/index.mpx", template, locale: "en" });
+}
+
+describe("resolveTemplateImports", () => {
+    it("展开 <include>，移除 <import> 并收集引用文件中的模板定义", () => {
+        const result = resolve(`<import src="../common/item.wxml"/><include src="../common/header.wxml"/><template is="item" data="{{...obj}}"/>`);
+        expect(result.errors).toEqual([]);
+        expect(printTemplate(result.ast)).toBe(`<view class="header">{{title}}</view><template is="item" data="{{...obj}}"/>`);
+        expect(Object.keys(result.templates)).toEqual(["item"]);
+        expect(result.dependencies).toEqual(["/pages/common/header.wxml", "/pages/common/item.wxml"]);
+    });
+
+    it("模板定义转换为 Vue 组件，模板中使用的数据作为 props", () => {
+        const { templates } = resolve(`<import src="../common/item.wxml"/>`);
+        const component = convertTemplateDefinition(templates.item, {});
+        expect(component).toMatchObject({ name: "template-item", props: ["name", "title"] });
+        expect(component.code).toBe(`<span>\n  {{name}}\n</span>\n<div class="header">\n  {{title}}\n</div>`);
+
+        const { ast } = new MpxTemplateParser(`<template is="item" data="{{...obj}}"/>`).parse();
+        expect(convertMpxToVueWithSourceMap(ast).code).toBe(`<template-item v-bind="{ ...obj }" />`);
+    });
+
+    it("报告找不到的文件、循环引用和缺少 src 的标签", () => {
+        const { errors } = resolve(`<include src="./missing.wxml"/><include src="./loop1.wxml"/><import/>`);
+        expect(errors.map((error) => [error.code, error.message])).toEqual([
+            ["template-file-not-found", "Template file /pages/a/missing.wxml was not found"],
+            ["circular-template-import", "Circular template reference: /pages/a/index.mpx -> /pages/a/loop1.wxml -> /pages/a/loop2.wxml -> /pages/a/loop1.wxml"],
+            ["template-missing-attribute", "<import> is missing the src attribute"],
+        ]);
+        expect(errors[0]).toMatchObject({ line: 1, column: 1 });
+    });
+
+    it("resolveTemplatePath 解析相对路径和根路径", () => {
+        expect(resolveTemplatePath("/pages/a/index.mpx", "../b/c.wxml")).toBe("/pages/b/c.wxml");
+        expect(resolveTemplatePath("a/b.mpx", "../../x.wxml")).toBe("../x.wxml");
+        expect(resolveTemplatePath("/a/b.mpx", "/c.wxml")).toBe("/c.wxml");
+    });
+});
@@ -0,0 +1,252 @@
+import { DiagnosticOptions, createDiagnostic } from "./diagnostics";
+import { MpxTemplateParser } from "./mpxTemplateParser";
+import { ASTNode, Attribute, Diagnostic, DiagnosticCode, DiagnosticLocale } from "./types";
+
+// 读取模板文件，文件不存在时返回 null 或 undefined
+export type TemplateFileLoader = (path: string) => string | null | undefined;
+
+// 模板引用解析选项
+export interface TemplateResolveOptions {
+    loadFile: TemplateFileLoader;
+    filename?: string; // 入口模板的路径，用于解析 src 中的相对路径
+    template?: string; // 入口模板源码，用于计算诊断信息的行列号
+    locale?: DiagnosticLocale;
+}
+
+// <template name="x"> 定义的模板
+export interface TemplateDefinition {
+    name: string;
+    filename: string; // 定义所在的文件
+    source: string; // 定义所在文件的源码，children 中的位置对应该源码
+    node: ASTNode; // <template name> 元素
+    children: ASTNode[]; // 模板内容，其中的 <include> 已展开
+    modules: ASTNode[]; // 所在文件中的 <wxs>，模板中可以使用
+}
+
+// 模板引用解析结果
+export interface TemplateResolveResult {
+    ast: ASTNode[]; // 展开 <include>、移除 <import> 和模板定义后的 AST
+    templates: Record<string, TemplateDefinition>; // 入口模板及其引用的文件中定义的所有模板
+    dependencies: string[]; // 读取过的模板文件
+    errors: Diagnostic[];
+    warnings: Diagnostic[];
+}
+
+// 解析后的模板文件
+interface ResolvedFile {
+    nodes: ASTNode[]; // 展开后的内容
+    names: string[]; // 文件中定义的模板名
+}
+
+// 正在解析的文件
+interface FileContext {
+    filename: string;
+    source: string;
+    names: string[]; // 文件中定义的模板名
+    scope: Set<string>; // 文件中可以使用的模板名：本文件定义的和直接 import 的
+    references: ASTNode[]; // 文件中的 <template is>
+    modules: ASTNode[]; // 文件中的 <wxs>
+    origin?: ASTNode; // 入口模板中引入该文件的 <import> / <include>，诊断信息报告在这里
+}
+
+// 模板引用解析器
+class TemplateResolver {
+    private options: TemplateResolveOptions = { loadFile: () => null };
+    private files: Map<string, ResolvedFile> = new Map();
+    private templates: Record<string, TemplateDefinition> = {};
+    private errors: Diagnostic[] = [];
+    private warnings: Diagnostic[] = [];
+    private stack: string[] = []; // 正在解析的文件，用于检测循环引用
+
+    resolve(ast: ASTNode[], options: TemplateResolveOptions): TemplateResolveResult {
+        const filename = options.filename || "";
+        this.options = options;
+        this.files = new Map();
+        this.templates = {};
+        this.errors = [];
+        this.warnings = [];
+        this.stack = [filename];
+
+        const { nodes } = this.resolveFile(ast, { filename, source: options.template || "", names: [], scope: new Set(), references: [], modules: [] });
+        return {
+            ast: nodes,
+            templates: this.templates,
+            dependencies: [...this.files.keys()],
+            errors: this.errors,
+            warnings: this.warnings,
+        };
+    }
+
+    // 解析一个文件的 AST，返回展开后的内容
+    private resolveFile(ast: ASTNode[], context: FileContext): ResolvedFile {
+        const nodes = this.resolveNodes(ast, context);
+
+        // 所有 import 处理完后才能确定可用的模板
+        for (const node of context.references) {
+            const name = node.attributes?.props?.is;
+            if (name !== undefined && !/\{\{/.test(name) && !context.scope.has(name.trim())) {
+                this.report("unknown-template", "warning", node, context, { args: { name: name.trim() } });
+            }
+        }
+        return { nodes, names: context.names };
+    }
+
+    private resolveNodes(nodes: ASTNode[], context: FileContext): ASTNode[] {
+        const result: ASTNode[] = [];
+
+        for (const node of nodes) {
+            const props: Record<string, string> = node.attributes?.props || {};
+            if (node.type !== "element") {
+                result.push(node);
+            } else if (node.name === "template" && "name" in props) {
+                this.defineTemplate(node, props.name.trim(), context);
+            } else if (node.name === "import") {
+                const file = this.loadFile(node, context);
+                file?.names.forEach((name) => context.scope.add(name));
+            } else if (node.name === "include") {
+                // <include> 不引入文件中的 <template> 和 <wxs>；内容来自其他文件，去掉位置信息，避免映射到入口模板的错误位置
+                const file = this.loadFile(node, context);
+                result.push(...(file?.nodes || []).filter((child) => child.name !== "wxs").map(stripPositions));
+            } else if (node.name === "wxs") {
+                context.modules.push(node);
+                result.push(node);
+            } else {
+                if (node.name === "template" && "is" in props) {
+                    context.references.push(node);
+                }
+                result.push(node.children ? { ...node, children: this.resolveNodes(node.children, context) } : node);
+            }
+        }
+
+        return result;
+    }
+
+    // 注册模板定义，同名模板保留先定义的
+    private defineTemplate(node: ASTNode, name: string, context: FileContext): void {
+        if (!name || /\{\{/.test(name)) {
+            this.report("template-missing-attribute", "error", node, context, { args: { tag: "template", name: "name" } });
+            return;
+        }
+        context.names.push(name);
+        context.scope.add(name);
+
+        const children = this.resolveNodes(node.children || [], context);
+        if (this.templates[name]) {
+            this.report("duplicate-template", "warning", node, context, { args: { name, filename: this.templates[name].filename } });
+            return;
+        }
+        this.templates[name] = { name, filename: context.filename, source: context.source, node, children, modules: context.modules };
+    }
+
+    // 读取并解析 <import> / <include> 引用的文件
+    private loadFile(node: ASTNode, context: FileContext): ResolvedFile | null {
+        const src = node.attributes?.props?.src?.trim();
+        if (!src) {
+            this.report("template-missing-attribute", "error", node, context, { args: { tag: node.name || "", name: "src" } });
+            return null;
+        }
+
+        const path = resolveTemplatePath(context.filename, src);
+        if (this.stack.includes(path)) {
+            this.report("circular-template-import", "error", node, context, { args: { chain: [...this.stack, path].join(" -> ") } });
+            return null;
+        }
+        const cached = this.files.get(path);
+        if (cached) {
+            return cached;
+        }
+
+        let source: string | null | undefined;
+        try {
+            source = this.options.loadFile(path);
+        } catch {
+            source = null;
+        }
+        if (source === null || source === undefined) {
+            this.report("template-file-not-found", "error", node, context, { args: { path } });
+            return null;
+        }
+
+        const parsed = new MpxTemplateParser(source, { locale: this.options.locale }).parse();
+        if (parsed.errors.length > 0) {
+            const error = parsed.errors[0];
+            this.report("template-file-error", "error", node, context, { args: { path, line: error.line, error: error.message } });
+        }
+
+        this.stack.push(path);
+        const file = this.resolveFile(parsed.ast, {
+            filename: path,
+            source,
+            names: [],
+            scope: new Set(),
+            references: [],
+            modules: [],
+            origin: context.origin || node,
+        });
+        this.stack.pop();
+        this.files.set(path, file);
+        return file;
+    }
+
+    // 入口模板中的问题报告在节点上，其他文件中的问题报告在入口模板引入该文件的位置
+    private report(code: DiagnosticCode, severity: "error" | "warning", node: ASTNode, context: FileContext, options: DiagnosticOptions): void {
+        const target = context.origin || node;
+        const position = target.position || { start: 0, end: 0 };
+        const diagnostic = createDiagnostic(this.options.template || "", code, severity, { start: position.start, end: position.end }, {
+            ...options,
+            locale: this.options.locale,
+        });
+        (severity === "error" ? this.errors : this.warnings).push(diagnostic);
+    }
+}
+
+/**
+ * 解析 src 相对于引用文件的路径
+ * @param importer - 引用文件的路径
+ * @param src - src 属性值，以 "/" 开头时相对于项目根目录
+ * @returns 规范化后的路径
+ */
+export function resolveTemplatePath(importer: string, src: string): string {
+    const absolute = src.startsWith("/") || (!!importer && importer.startsWith("/"));
+    const segments = src.startsWith("/") ? [] : importer.split("/").slice(0, -1).filter(Boolean);
+
+    for (const segment of src.split("/")) {
+        if (segment === "..") {
+            if (segments.length > 0 && segments[segments.length - 1] !== "..") {
+                segments.pop();
+            } else if (!absolute) {
+                segments.push(segment);
+            }
+        } else if (segment && segment !== ".") {
+            segments.push(segment);
+        }
+    }
+    return (absolute ? "/" : "") + segments.join("/");
+}
+
+// 复制节点并去掉位置信息
+function stripPositions(node: ASTNode): ASTNode {
+    const copy: ASTNode = { ...node, position: undefined, endTagPosition: undefined };
+    if (node.attributes) {
+        const all: Attribute[] = node.attributes.attributesAll || [];
+        copy.attributes = { ...node.attributes, attributesAll: all.map((attr) => ({ ...attr, position: undefined })) };
+    }
+    if (node.children) {
+        copy.children = node.children.map(stripPositions);
+    }
+    return copy;
+}
+
+/**
+ * 展开模板中的 <import>、<include> 和 <template name>
+ * - <include src> 替换为引用文件的内容（不含其中的模板定义）
+ * - <import src> 引入文件中定义的模板，本身从 AST 中移除
+ * - <template name> 从 AST 中移除，收集到 templates 中，由转换器生成对应的 Vue 组件
+ * @param ast - 入口模板的 AST
+ * @param options - 文件读取回调、入口文件路径和模板源码
+ * @returns 展开后的 AST、模板定义和诊断信息
+ */
+export function resolveTemplateImports(ast: ASTNode[], options: TemplateResolveOptions): TemplateResolveResult {
+    const resolver = new TemplateResolver();
+    return resolver.resolve(ast, options);
+}
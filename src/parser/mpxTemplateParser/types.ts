@@ -1,3 +1,13 @@
+import type { Expression } from "@babel/types";
+
+// 源码位置信息
+export interface SourcePosition {
+    start: number;
+    end: number;
+    line: number;
+    column: number;
+}
+
 // AST 节点类型定义
 export interface ASTNode {
     type: string;
@@ -5,21 +15,95 @@ export interface ASTNode {
     attributes?: Record<string, any>;
     children?: ASTNode[];
     content?: string;
-    startTag?: string;
-    endTag?: string;
-    position?: {
+    startTag?: string; // 开始标签原文
+    endTag?: string; // 结束标签原文，省略或隐式关闭时为空
+    selfClosing?: boolean; // 以 "/>" 结束的自闭合标签
+    tagTrailing?: string; // 最后一个属性与 ">" 之间的空白
+    tagClose?: string; // 开始标签的结束符：">"、"/>"，缺失时为空字符串
+    tokens?: TemplateToken[];
+    expression?: ExpressionNode;
+    recovered?: boolean; // 经过错误恢复生成（如隐式闭合的元素）
+    modes?: string[]; // 元素级条件编译：只在这些平台上保留，来自 @wx|ali 或 wx:mode
+    position?: SourcePosition; // 元素为开始标签的位置
+    endTagPosition?: SourcePosition;
+}
+
+// 普通文本片段
+export interface TextToken {
+    type: "text";
+    value: string;
+    position: SourcePosition;
+}
+
+// 插值表达式片段（{{ }}），作为不可拆分的整体
+export interface MustacheToken {
+    type: "mustache";
+    raw: string; // 包含花括号的原始文本
+    expression: string; // 花括号内的表达式源码
+    position: SourcePosition;
+}
+
+// 文本和属性值的词法单元
+export type TemplateToken = TextToken | MustacheToken;
+
+// 静态文本部分
+export interface StaticPart {
+    type: "static";
+    value: string;
+    position: SourcePosition;
+}
+
+// 动态表达式部分，expression 为 Babel 表达式 AST，解析失败时为 null
+export interface DynamicPart {
+    type: "dynamic";
+    raw: string;
+    source: string;
+    expression: Expression | null;
+    error?: {
+        message: string;
         start: number;
-        end: number;
         line: number;
         column: number;
     };
+    position: SourcePosition;
+}
+
+export type ExpressionPart = StaticPart | DynamicPart;
+
+// 表达式节点：文本或属性值拆分后的静态/动态部分
+export interface ExpressionNode {
+    type: "expression";
+    parts: ExpressionPart[];
+    isStatic: boolean; // 不包含任何插值表达式
 }
 
+// 指令类型
+export type DirectiveKind =
+    | "if"
+    | "elif"
+    | "else"
+    | "for"
+    | "for-item"
+    | "for-index"
+    | "key"
+    | "show"
+    | "ref"
+    | "bind"
+    | "mode"
+    | "class"
+    | "style"
+    | "model"
+    | "model-option"
+    | "event"
+    | "unknown";
+
 // 指令类型定义
 export interface Directive {
     name: string;
     value: string;
+    kind?: DirectiveKind;
     modifiers?: string[];
+    expression?: ExpressionNode;
 }
 
 // 属性类型定义
@@ -28,11 +112,122 @@ export interface Attribute {
     value: string;
     isDirective: boolean;
     directive?: Directive;
+    tokens?: TemplateToken[];
+    expression?: ExpressionNode;
+    modes?: string[]; // 条件编译：属性名上 "@" 之后的平台，如 class@wx|ali；单独的 @wx|ali 为元素级标记
+    // 以下为无损打印所需的原始格式信息
+    leading?: string; // 属性前的空白
+    raw?: string; // 属性原文，修改属性后应清除
+    rawValue?: string; // 引号内的原始值
+    quote?: '"' | "'" | ""; // 引号风格，无引号时为空字符串
+    hasValue?: boolean; // 是否带有 "=value"
+    position?: SourcePosition;
+}
+
+// 诊断信息类型定义
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+export type DiagnosticLocale = "zh" | "en";
+
+export type DiagnosticCode =
+    | "internal-error"
+    | "expected-tag-name"
+    | "expected-tag-close"
+    | "unclosed-element"
+    | "unclosed-comment"
+    | "stray-end-tag"
+    | "invalid-expression"
+    | "unclosed-block"
+    | "duplicate-block"
+    | "invalid-json"
+    | "json-missing-export"
+    | "json-type-mismatch"
+    | "json-invalid-value"
+    | "json-unknown-field"
+    | "json-non-static-value"
+    | "json-invalid-component-name"
+    | "invalid-script"
+    | "unbalanced-style-brace"
+    | "style-unsupported-selector"
+    | "style-platform-import"
+    | "orphan-conditional"
+    | "conditional-chain-text"
+    | "conditional-chain-comment"
+    | "unsupported-block-attribute"
+    | "event-approximated"
+    | "unsupported-event-binding"
+    | "dynamic-event-handler"
+    | "unknown-event-modifier"
+    | "unsupported-component-attribute"
+    | "dynamic-component-attribute"
+    | "invalid-model-expression"
+    | "template-missing-attribute"
+    | "template-file-not-found"
+    | "template-file-error"
+    | "circular-template-import"
+    | "duplicate-template"
+    | "unknown-template"
+    | "unresolved-template-tag"
+    | "invalid-wxs-module"
+    | "duplicate-wxs-module"
+    | "unsupported-target-construct"
+    | "unsupported-target-event"
+    | "target-inline-script-unsupported"
+    | "unknown-component"
+    | "unused-component"
+    | "undeclared-binding"
+    | "undeclared-event-handler"
+    | "unused-binding"
+    | "unused-method"
+    | "script-lang-mismatch"
+    | "unsupported-lifetime"
+    | "page-query-unavailable";
+
+// 关联位置和修复建议的文案
+export type DiagnosticNoteId = "note-open-tag" | "note-first-block" | "fix-insert" | "fix-replace" | "fix-remove";
+
+export type DiagnosticMessageId = DiagnosticCode | DiagnosticNoteId;
+
+// 与诊断相关的其他位置，如不匹配的结束标签对应的开始标签
+export interface DiagnosticRelatedLocation {
+    messageId: DiagnosticNoteId;
+    args: Record<string, string | number>;
+    message: string;
+    start: number;
+    end: number;
+    line: number;
+    column: number;
+}
+
+// 修复建议：用 replacement 替换 [start, end) 范围内的源码
+export interface DiagnosticFix {
+    messageId: DiagnosticNoteId;
+    args: Record<string, string | number>;
+    message: string;
+    start: number;
+    end: number;
+    replacement: string;
+}
+
+export interface Diagnostic {
+    code: DiagnosticCode;
+    severity: DiagnosticSeverity;
+    message: string;
+    args: Record<string, string | number>; // 文案参数，用于切换语言重新渲染
+    start: number;
+    end: number;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+    related?: DiagnosticRelatedLocation[];
+    fix?: DiagnosticFix;
 }
 
 // 解析结果类型定义
 export interface ParseResult {
     ast: ASTNode[];
-    errors: string[];
-    warnings: string[];
-}
\ No newline at end of file
+    errors: Diagnostic[];
+    warnings: Diagnostic[];
+    recoveredNodes: ASTNode[]; // 经过错误恢复生成的节点，AST 仍然完整可用
+}
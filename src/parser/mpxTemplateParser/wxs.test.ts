@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { convertMpxToVueWithSourceMap } from "./convertToVue";
+import { MpxTemplateParser } from "./mpxTemplateParser";
+import { generateWxsScript, isValidWxsModuleName } from "./wxs";
+
+function convert(template: string) {
+    const { ast } = new MpxTemplateParser(template).parse();
+    return convertMpxToVueWithSourceMap(ast, { template, locale: "en" });
+}
+
+describe("wxs", () => {
+    it("从模板中移除 <wxs> 并收集模块", () => {
+        const { code, wxsModules, errors } = convert(`<wxs module="m">module.exports = { a: 1 }</wxs><wxs module="u" src="./u.wxs"/><view>{{m.a}}</view>`);
+        expect(errors).toEqual([]);
+        expect(code).toBe("<div>\n  {{m.a}}\n</div>");
+        expect(wxsModules).toMatchObject([
+            { name: "m", code: "module.exports = { a: 1 }" },
+            { name: "u", src: "./u.wxs" },
+        ]);
+    });
+
+    it("报告不合法的模块名、缺少 module 属性和重复的模块", () => {
+        const { wxsModules, errors, warnings } = convert(`<wxs module="1a">x</wxs><wxs>y</wxs><wxs module="m">z</wxs><wxs module="m">w</wxs>`);
+        expect(wxsModules.map((module) => module.code)).toEqual(["z"]);
+        expect(errors.map((error) => error.code)).toEqual(["invalid-wxs-module", "template-missing-attribute"]);
+        expect(warnings.map((warning) => warning.code)).toEqual(["duplicate-wxs-module"]);
+    });
+
+    it("生成 <script setup> 代码，内联模块按 CommonJS 执行并注入用到的全局函数", () => {
+        expect(generateWxsScript([{ name: "u", src: "./u.wxs" }])).toBe(`import u from "./u.wxs";`);
+        expect(generateWxsScript([{ name: "m", code: `module.exports = { r: getRegExp("a") }` }])).toBe(
+            [
+                "const m = (() => {",
+                "    const module = { exports: {} };",
+                "    (function (module, exports) {",
+                "        const getRegExp = (pattern, flags) => new RegExp(pattern, flags);",
+                `        module.exports = { r: getRegExp("a") }`,
+                "    })(module, module.exports);",
+                "    return module.exports;",
+                "})();",
+            ].join("\n")
+        );
+        expect(generateWxsScript([])).toBe("");
+    });
+
+    it("模块名必须是合法的标识符", () => {
+        expect(isValidWxsModuleName("utils")).toBe(true);
+        expect(isValidWxsModuleName("1a")).toBe(false);
+        expect(isValidWxsModuleName("a-b")).toBe(false);
+    });
+});
@@ -0,0 +1,67 @@
+import { SourcePosition } from "./types";
+
+// <wxs> 模块
+export interface WxsModule {
+    name: string; // module 属性，模板中通过该名称访问模块
+    src?: string; // 外部 .wxs 文件，优先于内联代码
+    code?: string; // 内联代码
+    position?: SourcePosition;
+}
+
+// WXS 内置的全局函数在 Web 上的实现
+const wxsGlobals: Record<string, string> = {
+    getRegExp: "const getRegExp = (pattern, flags) => new RegExp(pattern, flags);",
+    getDate: "const getDate = (...args) => new Date(...args);",
+};
+
+// 模块名需要作为变量名使用
+export function isValidWxsModuleName(name: string): boolean {
+    return /^[A-Za-z_$][\w$]*$/.test(name);
+}
+
+/**
+ * 生成引入 WXS 模块的 <script setup> 代码，顶层变量可以直接在模板中使用
+ * - 外部文件：import utils from "./utils.wxs"
+ * - 内联代码：按 CommonJS 模块执行，取 module.exports
+ * @param modules - 模板中的 WXS 模块
+ * @returns script 代码，没有模块时返回空字符串
+ */
+export function generateWxsScript(modules: WxsModule[]): string {
+    const imports: string[] = [];
+    const declarations: string[] = [];
+
+    for (const module of modules) {
+        if (module.src) {
+            imports.push(`import ${module.name} from ${JSON.stringify(module.src)};`);
+            continue;
+        }
+
+        const code = (module.code || "").trim();
+        const globals = Object.entries(wxsGlobals)
+            .filter(([name]) => new RegExp(`\\b${name}\\b`).test(code))
+            .map(([, declaration]) => declaration);
+        const body = [...globals, code].filter(Boolean).join("\n");
+        declarations.push(
+            [
+                `const ${module.name} = (() => {`,
+                "    const module = { exports: {} };",
+                "    (function (module, exports) {",
+                indent(body, 8),
+                "    })(module, module.exports);",
+                "    return module.exports;",
+                "})();",
+            ].join("\n")
+        );
+    }
+
+    return [...imports, ...declarations].join("\n");
+}
+
+// 为每一行添加缩进
+function indent(code: string, size: number): string {
+    const prefix = " ".repeat(size);
+    return code
+        .split("\n")
+        .map((line) => (line.trim() ? prefix + line : ""))
+        .join("\n");
+}
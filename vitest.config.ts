@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config";
+
+// 单独的测试配置：vite.config.ts 会启动 Babel 转换服务，测试中不需要
+export default defineConfig({
+    test: {
+        include: ["src/**/*.test.ts", "server/**/*.test.ts"],
+    },
+});